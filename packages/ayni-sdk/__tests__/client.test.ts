@@ -1,5 +1,12 @@
 import { describe, it, expect, vi, afterEach } from 'vitest'
-import { Ayni, AyniError, AuthenticationError, PaymentRequiredError } from '../src'
+import {
+  Ayni,
+  AyniError,
+  AuthenticationError,
+  PaymentRequiredError,
+  NotFoundError,
+  RateLimitError,
+} from '../src'
 
 const BASE = 'https://ayni-alpha.vercel.app'
 
@@ -114,6 +121,15 @@ describe('Ayni client (API key mode)', () => {
     await expect(ayni.getAgent(43114, 999)).rejects.toThrow(AyniError)
   })
 
+  it('throws NotFoundError (a AyniError) on 404', async () => {
+    globalThis.fetch = mockFetch(404, { error: 'Agent not found' })
+
+    const ayni = new Ayni({ apiKey: 'ay_test123' })
+    const err = await ayni.getAgent(43114, 999).catch((e) => e)
+    expect(err).toBeInstanceOf(NotFoundError)
+    expect(err).toBeInstanceOf(AyniError)
+  })
+
   it('throws AyniError on 429', async () => {
     globalThis.fetch = mockFetch(429, { error: 'Rate limit exceeded' })
 
@@ -121,6 +137,7 @@ describe('Ayni client (API key mode)', () => {
     const err = await ayni.getAgent(43114, 1).catch((e) => e)
     expect(err).toBeInstanceOf(AyniError)
     expect(err.status).toBe(429)
+    expect(err).toBeInstanceOf(RateLimitError)
   })
 
   it('respects custom baseUrl', async () => {
@@ -140,7 +140,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
           oracle: { type: 'string', description: 'Trust oracle: "denscope" (Celo, SKALE Base) or "ayni" (Avalanche)', enum: ['denscope', 'ayni'] },
           chain: { type: 'string', description: 'Chain name or ID' },
           agentId: { type: 'number', description: 'Agent ID' },
-          limit: { type: 'number', description: 'Max events (default 10)' },
+          limit: { type: 'number', description: 'Max events (default 10); fetched across pages as needed' },
+          kind: { type: 'string', description: 'Only events of this kind (e.g. "feedback")' },
           apiKey: { type: 'string', description: 'API key (optional)' },
         },
         required: ['oracle', 'chain', 'agentId'],
@@ -295,7 +296,22 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const chainId = resolveChainId(oracle, args?.chain as string)
         const agentId = args?.agentId as number
         const limit = (args?.limit as number) ?? 10
-        const { events, pagination } = await client.getEvents(chainId, agentId, { limit })
+        const kind = args?.kind as string | undefined
+        // Page up to `limit`; the first page's pagination carries the total
+        const first = await client.getEvents(chainId, agentId, { kind, limit: Math.min(limit, 50) })
+        const events = [...first.events]
+        let hasMore = first.pagination.hasMore
+        while (hasMore && events.length < limit) {
+          const page = await client.getEvents(chainId, agentId, {
+            kind,
+            limit: Math.min(limit - events.length, 50),
+            offset: events.length,
+          })
+          if (page.events.length === 0) break
+          events.push(...page.events)
+          hasMore = page.pagination.hasMore
+        }
+        const total = Math.max(first.pagination.total, events.length)
 
         if (events.length === 0) {
           return {
@@ -314,10 +330,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           content: [{
             type: 'text',
             text: [
-              `${pagination.total} event(s) for Agent #${agentId} (showing ${events.length}):`,
+              `${total} event(s) for Agent #${agentId}${kind ? ` (kind: ${kind})` : ''} (showing ${events.length}):`,
               '',
               ...lines,
-              pagination.hasMore ? `\n  ... and ${pagination.total - events.length} more` : '',
+              total > events.length ? `\n  ... and ${total - events.length} more` : '',
             ].filter(Boolean).join('\n'),
           }],
         }
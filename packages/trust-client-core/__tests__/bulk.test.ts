@@ -0,0 +1,195 @@
+import { describe, it, expect, vi } from 'vitest'
+import { TrustClient, NotFoundError, TrustClientError, agentKey } from '../src'
+import type { BulkEndpointHook } from '../src'
+
+const BASE = 'https://test-oracle.example.com'
+
+function response(status: number, body: unknown) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(),
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  }
+}
+
+/** Scores keyed by agentId; unknown agents return 404 */
+function scoreFetch(scores: Record<number, number>) {
+  return vi.fn().mockImplementation((url: string) => {
+    const agentId = Number(url.match(/\/agent\/\d+\/(\d+)/)?.[1])
+    const value = scores[agentId]
+    return Promise.resolve(
+      value == null
+        ? response(404, { error: 'Agent not found' })
+        : response(200, { score: { value }, formula: 'https://...' }),
+    )
+  })
+}
+
+describe('TrustClient.getScores', () => {
+  it('returns a settled result per agent, keyed by agentKey', async () => {
+    const fetch = scoreFetch({ 1: 70, 2: 40 })
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+
+    const results = await client.getScores([
+      { chainId: 42220, agentId: 1 },
+      { chainId: 42220, agentId: 2 },
+      { chainId: 42220, agentId: 3 },
+    ])
+
+    expect([...results.keys()]).toEqual(['42220:1', '42220:2', '42220:3'])
+    const first = results.get(agentKey(42220, 1))
+    expect(first).toEqual({
+      status: 'fulfilled',
+      agent: { chainId: 42220, agentId: 1 },
+      value: { score: { value: 70 }, formula: 'https://...' },
+    })
+
+    const missing = results.get(agentKey(42220, 3))
+    expect(missing?.status).toBe('rejected')
+    expect(missing?.status === 'rejected' && missing.reason).toBeInstanceOf(NotFoundError)
+  })
+
+  it('de-duplicates repeated agents', async () => {
+    const fetch = scoreFetch({ 1: 70 })
+    const client = new TrustClient({ apiKey: 'key', fetch, dedupe: false }, BASE)
+
+    const results = await client.getScores([
+      { chainId: 42220, agentId: 1 },
+      { chainId: 42220, agentId: 1 },
+    ])
+
+    expect(results.size).toBe(1)
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('limits concurrency', async () => {
+    let active = 0
+    let peak = 0
+    const fetch = vi.fn().mockImplementation(async () => {
+      active++
+      peak = Math.max(peak, active)
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      active--
+      return response(200, { score: { value: 50 } })
+    })
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+
+    const agents = Array.from({ length: 10 }, (_, i) => ({ chainId: 42220, agentId: i }))
+    const results = await client.getScores(agents, { concurrency: 3 })
+
+    expect(results.size).toBe(10)
+    expect(peak).toBe(3)
+  })
+
+  it('resolves with an empty map for an empty list', async () => {
+    const fetch = vi.fn()
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+
+    expect((await client.getScores([])).size).toBe(0)
+    expect(fetch).not.toHaveBeenCalled()
+  })
+})
+
+describe('TrustClient.getAgents / evaluateMany', () => {
+  it('getAgents fans out to the agent endpoint', async () => {
+    const fetch = vi.fn().mockResolvedValue(response(200, { agent: { owner: '0xabc' } }))
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+
+    const results = await client.getAgents([{ chainId: 43114, agentId: 9 }])
+
+    expect(fetch).toHaveBeenCalledWith(`${BASE}/api/v1/agent/43114/9`, expect.any(Object))
+    expect(results.get('43114:9')?.status).toBe('fulfilled')
+  })
+
+  it('evaluateMany sends the same preset for every agent', async () => {
+    const fetch = vi.fn().mockResolvedValue(response(200, { evaluation: { recommended_action: 'allow' } }))
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+
+    await client.evaluateMany(
+      [{ chainId: 42220, agentId: 1 }, { chainId: 42220, agentId: 2 }],
+      { preset: 'agent_to_agent', concurrency: 2 },
+    )
+
+    const bodies = fetch.mock.calls.map(([, init]) => JSON.parse(init.body))
+    expect(bodies).toEqual([
+      { chainId: 42220, agentId: 1, preset: 'agent_to_agent' },
+      { chainId: 42220, agentId: 2, preset: 'agent_to_agent' },
+    ])
+  })
+})
+
+describe('TrustClient — bulkEndpoint hook', () => {
+  const agents = [{ chainId: 42220, agentId: 1 }, { chainId: 42220, agentId: 2 }]
+
+  it('uses the server bulk endpoint through the client pipeline', async () => {
+    const fetch = vi.fn().mockResolvedValue(
+      response(200, { results: [{ agentId: 1, score: { value: 70 } }] }),
+    )
+    const bulkEndpoint: BulkEndpointHook = async ({ method, agents, post }) => {
+      if (method !== 'getScores') return undefined
+      const { results } = await post<{ results: Array<{ agentId: number; score: unknown }> }>(
+        '/agents/scores',
+        { agents },
+      )
+      return results.map((r) => ({
+        status: 'fulfilled' as const,
+        agent: { chainId: 42220, agentId: r.agentId },
+        value: { score: r.score },
+      }))
+    }
+    const client = new TrustClient({ apiKey: 'key', fetch, bulkEndpoint }, BASE)
+
+    const results = await client.getScores(agents)
+
+    expect(fetch).toHaveBeenCalledOnce()
+    const [url, init] = fetch.mock.calls[0]
+    expect(url).toBe(`${BASE}/api/v1/agents/scores`)
+    expect(init.headers.Authorization).toBe('Bearer key')
+    expect(JSON.parse(init.body)).toEqual({ agents })
+
+    expect(results.get('42220:1')?.status).toBe('fulfilled')
+    const missing = results.get('42220:2')
+    expect(missing?.status === 'rejected' && missing.reason).toBeInstanceOf(TrustClientError)
+  })
+
+  it('falls back to per-agent requests when the hook returns undefined', async () => {
+    const fetch = scoreFetch({ 1: 70, 2: 40 })
+    const bulkEndpoint = vi.fn().mockResolvedValue(undefined)
+    const client = new TrustClient({ apiKey: 'key', fetch, bulkEndpoint }, BASE)
+
+    const results = await client.getScores(agents)
+
+    expect(bulkEndpoint).toHaveBeenCalledOnce()
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect([...results.values()].every((r) => r.status === 'fulfilled')).toBe(true)
+  })
+
+  it('passes evaluation parameters to the hook', async () => {
+    const bulkEndpoint = vi.fn().mockResolvedValue(undefined)
+    const fetch = vi.fn().mockResolvedValue(response(200, { evaluation: {} }))
+    const client = new TrustClient({ apiKey: 'key', fetch, bulkEndpoint }, BASE)
+
+    await client.evaluateMany(agents, { preset: 'defi_counterparty', context: 'escrow' })
+
+    expect(bulkEndpoint.mock.calls[0][0]).toMatchObject({
+      method: 'evaluateMany',
+      agents,
+      evaluate: { preset: 'defi_counterparty', context: 'escrow' },
+    })
+  })
+
+  it('marks every agent as failed when the hook throws', async () => {
+    const bulkEndpoint = vi.fn().mockRejectedValue(new Error('bulk down'))
+    const client = new TrustClient({ apiKey: 'key', fetch: vi.fn(), bulkEndpoint }, BASE)
+
+    const results = await client.getScores(agents)
+
+    expect(results.size).toBe(2)
+    for (const item of results.values()) {
+      expect(item.status).toBe('rejected')
+      expect(item.status === 'rejected' && item.reason.message).toBe('bulk down')
+    }
+  })
+})
@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { TrustClient, MemoryCacheStore } from '../src'
+import type { CacheEntry, CacheStore } from '../src'
+
+const BASE = 'https://test-oracle.example.com'
+
+function scoreBody(value: number, updatedAt = '2026-03-29T18:00:00Z') {
+  return { score: { value, confidence: 'high', updatedAt }, formula: 'https://...' }
+}
+
+function jsonFetch(...bodies: unknown[]) {
+  let i = 0
+  return vi.fn().mockImplementation(() => {
+    const body = bodies[Math.min(i++, bodies.length - 1)]
+    return Promise.resolve({
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      json: () => Promise.resolve(body),
+      text: () => Promise.resolve(JSON.stringify(body)),
+    })
+  })
+}
+
+describe('MemoryCacheStore', () => {
+  const entry = (value: number): CacheEntry => ({ value, storedAt: 0, expiresAt: 1, staleUntil: 1 })
+
+  it('evicts the least recently used entry', () => {
+    const store = new MemoryCacheStore(2)
+    store.set('a', entry(1))
+    store.set('b', entry(2))
+    store.get('a')
+    store.set('c', entry(3))
+
+    expect(store.keys()).toEqual(['a', 'c'])
+    expect(store.size).toBe(2)
+  })
+
+  it('lists keys by prefix', () => {
+    const store = new MemoryCacheStore()
+    store.set('x|1', entry(1))
+    store.set('x|2', entry(2))
+    store.set('y|1', entry(3))
+
+    expect(store.keys('x|')).toEqual(['x|1', 'x|2'])
+  })
+})
+
+describe('TrustClient — response cache', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('does not cache without config.cache', async () => {
+    const fetch = jsonFetch(scoreBody(70))
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+
+    await client.getScore(42220, 5)
+    await client.getScore(42220, 5)
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('serves repeat calls from cache within the TTL', async () => {
+    const fetch = jsonFetch(scoreBody(70))
+    const client = new TrustClient({ apiKey: 'key', fetch, cache: {} }, BASE)
+
+    const first = await client.getScore(42220, 5)
+    const second = await client.getScore(42220, 5)
+
+    expect(second).toEqual(first)
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('refetches once the TTL expires', async () => {
+    vi.useFakeTimers()
+    const fetch = jsonFetch(scoreBody(70), scoreBody(75, '2026-03-29T18:05:00Z'))
+    const client = new TrustClient({ apiKey: 'key', fetch, cache: { ttlMs: { getScore: 1000 } } }, BASE)
+
+    await client.getScore(42220, 5)
+    vi.advanceTimersByTime(1001)
+    const result = await client.getScore(42220, 5)
+
+    expect(result.score.value).toBe(75)
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('keys entries by query parameters and evaluate options', async () => {
+    const fetch = jsonFetch({ signals: [], count: 0 })
+    const client = new TrustClient({ apiKey: 'key', fetch, cache: {} }, BASE)
+
+    await client.getSignals(42220, 5, { status: 'open' })
+    await client.getSignals(42220, 5, { status: 'resolved' })
+    await client.getSignals(42220, 5, { status: 'open' })
+    expect(fetch).toHaveBeenCalledTimes(2)
+
+    fetch.mockClear()
+    await client.evaluate(42220, 5, { preset: 'default_safety' })
+    await client.evaluate(42220, 5, { preset: 'defi_counterparty' })
+    await client.evaluate(42220, 5, { preset: 'default_safety' })
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not cache getEvents by default', async () => {
+    const fetch = jsonFetch({ events: [], pagination: { total: 0, limit: 25, offset: 0, hasMore: false } })
+    const client = new TrustClient({ apiKey: 'key', fetch, cache: {} }, BASE)
+
+    await client.getEvents(42220, 5)
+    await client.getEvents(42220, 5)
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('bypasses the cache with { cache: false }', async () => {
+    const fetch = jsonFetch(scoreBody(70))
+    const client = new TrustClient({ apiKey: 'key', fetch, cache: {} }, BASE)
+
+    await client.getScore(42220, 5)
+    await client.getScore(42220, 5, { cache: false })
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not cache errors', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 503,
+        headers: new Headers(),
+        json: () => Promise.resolve({ error: 'down' }),
+        text: () => Promise.resolve('down'),
+      })
+      .mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () => Promise.resolve(scoreBody(70)),
+      })
+    const client = new TrustClient({ apiKey: 'key', fetch, cache: {} }, BASE)
+
+    await expect(client.getScore(42220, 5)).rejects.toThrow()
+    await expect(client.getScore(42220, 5)).resolves.toEqual(scoreBody(70))
+  })
+
+  it('invalidates every entry for one agent', async () => {
+    const fetch = jsonFetch(scoreBody(70))
+    const client = new TrustClient({ apiKey: 'key', fetch, cache: {} }, BASE)
+
+    await client.getScore(42220, 5)
+    await client.getAgent(42220, 5)
+    await client.getScore(42220, 6)
+    await client.invalidate(42220, 5)
+
+    fetch.mockClear()
+    await client.getScore(42220, 5)
+    await client.getAgent(42220, 5)
+    await client.getScore(42220, 6)
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('clearCache drops only this oracle\'s entries from a shared store', async () => {
+    const store = new MemoryCacheStore()
+    const fetchA = jsonFetch(scoreBody(70))
+    const fetchB = jsonFetch(scoreBody(40))
+    const a = new TrustClient({ apiKey: 'key', fetch: fetchA, cache: { store } }, 'https://a.example.com')
+    const b = new TrustClient({ apiKey: 'key', fetch: fetchB, cache: { store } }, 'https://b.example.com')
+
+    await a.getScore(42220, 5)
+    await b.getScore(42220, 5)
+    await a.clearCache()
+
+    expect(store.size).toBe(1)
+    await b.getScore(42220, 5)
+    expect(fetchB).toHaveBeenCalledTimes(1)
+  })
+
+  it('serves stale entries while revalidating in the background', async () => {
+    vi.useFakeTimers()
+    const fetch = jsonFetch(scoreBody(70), scoreBody(80, '2026-03-29T18:05:00Z'))
+    const client = new TrustClient(
+      { apiKey: 'key', fetch, cache: { ttlMs: { getScore: 1000 }, staleWhileRevalidateMs: 5000 } },
+      BASE,
+    )
+
+    await client.getScore(42220, 5)
+    vi.advanceTimersByTime(1500)
+
+    const stale = await client.getScore(42220, 5)
+    expect(stale.score.value).toBe(70)
+    await vi.waitFor(async () => {
+      const fresh = await client.getScore(42220, 5)
+      expect(fresh.score.value).toBe(80)
+    })
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('works with an async storage adapter', async () => {
+    const data = new Map<string, CacheEntry>()
+    const store: CacheStore = {
+      get: async (key) => data.get(key),
+      set: async (key, entry) => {
+        data.set(key, JSON.parse(JSON.stringify(entry)))
+      },
+      delete: async (key) => {
+        data.delete(key)
+      },
+      keys: async (prefix) => [...data.keys()].filter((k) => k.startsWith(prefix)),
+    }
+    const fetch = jsonFetch(scoreBody(70))
+    const client = new TrustClient({ apiKey: 'key', fetch, cache: { store } }, BASE)
+
+    await client.getScore(42220, 5)
+    const cached = await client.getScore(42220, 5)
+
+    expect(cached.score.value).toBe(70)
+    expect(fetch).toHaveBeenCalledTimes(1)
+    const [entry] = data.values()
+    expect(entry.dataTimestamp).toBe(Date.parse('2026-03-29T18:00:00Z'))
+  })
+})
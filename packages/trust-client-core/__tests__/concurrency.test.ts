@@ -0,0 +1,185 @@
+import { describe, it, expect, vi } from 'vitest'
+import { TrustClient } from '../src'
+import { createLimiter } from '../src/concurrency'
+
+const BASE = 'https://test-oracle.example.com'
+
+function deferred<T>() {
+  let resolve!: (value: T) => void
+  let reject!: (reason: unknown) => void
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res
+    reject = rej
+  })
+  return { promise, resolve, reject }
+}
+
+function okResponse(body: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    headers: new Headers(),
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  }
+}
+
+/** fetch mock whose responses are released manually, in call order */
+function controlledFetch() {
+  const pending: Array<ReturnType<typeof deferred<unknown>>> = []
+  const fetch = vi.fn().mockImplementation(() => {
+    const d = deferred<unknown>()
+    pending.push(d)
+    return d.promise
+  })
+  return { fetch, pending }
+}
+
+describe('createLimiter', () => {
+  it('runs at most N tasks at once, in FIFO order', async () => {
+    const limit = createLimiter(2)
+    const gates = [deferred<void>(), deferred<void>(), deferred<void>()]
+    const started: number[] = []
+
+    const tasks = gates.map((gate, i) =>
+      limit(async () => {
+        started.push(i)
+        await gate.promise
+        return i
+      }),
+    )
+
+    await Promise.resolve()
+    expect(started).toEqual([0, 1])
+
+    gates[0].resolve()
+    await vi.waitFor(() => expect(started).toEqual([0, 1, 2]))
+
+    gates[1].resolve()
+    gates[2].resolve()
+    await expect(Promise.all(tasks)).resolves.toEqual([0, 1, 2])
+  })
+
+  it('releases the slot when a task rejects', async () => {
+    const limit = createLimiter(1)
+    await expect(limit(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom')
+    await expect(limit(() => Promise.resolve('ok'))).resolves.toBe('ok')
+  })
+
+  it('rejects invalid limits', () => {
+    expect(() => createLimiter(0)).toThrow(RangeError)
+  })
+})
+
+describe('TrustClient — in-flight deduplication', () => {
+  it('coalesces identical concurrent calls onto one fetch', async () => {
+    const { fetch, pending } = controlledFetch()
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+
+    const calls = [client.getScore(42220, 5), client.getScore(42220, 5), client.getScore(42220, 5)]
+    await vi.waitFor(() => expect(pending).toHaveLength(1))
+    pending[0].resolve(okResponse({ score: { value: 72 } }))
+
+    const results = await Promise.all(calls)
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(results.every((r) => r.score.value === 72)).toBe(true)
+  })
+
+  it('does not coalesce different agents or options', async () => {
+    const fetch = vi.fn().mockImplementation(() => Promise.resolve(okResponse({})))
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+
+    await Promise.all([
+      client.getScore(42220, 5),
+      client.getScore(42220, 6),
+      client.evaluate(42220, 5, { preset: 'default_safety' }),
+      client.evaluate(42220, 5, { preset: 'agent_to_agent' }),
+    ])
+    expect(fetch).toHaveBeenCalledTimes(4)
+  })
+
+  it('shares failures and fetches again once settled', async () => {
+    const { fetch, pending } = controlledFetch()
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+
+    const a = client.getAgent(42220, 5)
+    const b = client.getAgent(42220, 5)
+    await vi.waitFor(() => expect(pending).toHaveLength(1))
+    pending[0].reject(new TypeError('fetch failed'))
+
+    await expect(a).rejects.toThrow('fetch failed')
+    await expect(b).rejects.toThrow('fetch failed')
+
+    const c = client.getAgent(42220, 5)
+    await vi.waitFor(() => expect(pending).toHaveLength(2))
+    pending[1].resolve(okResponse({ agent: {} }))
+    await expect(c).resolves.toEqual({ agent: {} })
+  })
+
+  it('can be disabled with dedupe: false', async () => {
+    const fetch = vi.fn().mockImplementation(() => Promise.resolve(okResponse({})))
+    const client = new TrustClient({ apiKey: 'key', fetch, dedupe: false }, BASE)
+
+    await Promise.all([client.getScore(42220, 5), client.getScore(42220, 5)])
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('signs a single x402 payment for concurrent paid calls', async () => {
+    const paymentRequired = {
+      x402Version: 2,
+      accepts: [{
+        scheme: 'exact',
+        network: 'eip155:42220',
+        amount: '1000',
+        asset: '0xcebA9300f2b948710d2653dD7B07f33A8B32118C',
+        payTo: '0xPayTo',
+        maxTimeoutSeconds: 30,
+        extra: { assetTransferMethod: 'eip3009', name: 'USD Coin', version: '2' },
+      }],
+      resource: { url: `${BASE}/api/v1/agent/42220/5/score`, description: 'Trust score', mimeType: 'application/json' },
+      error: 'missing payment header',
+    }
+    const fetch = vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+      const headers = init.headers as Record<string, string>
+      if (headers['X-PAYMENT']) return Promise.resolve(okResponse({ score: { value: 80 } }))
+      return Promise.resolve({
+        ok: false,
+        status: 402,
+        headers: new Headers({ 'payment-required': btoa(JSON.stringify(paymentRequired)) }),
+        json: () => Promise.resolve(paymentRequired),
+        text: () => Promise.resolve(JSON.stringify(paymentRequired)),
+      })
+    })
+    const account = {
+      address: '0x1234567890abcdef1234567890abcdef12345678' as `0x${string}`,
+      signTypedData: vi.fn().mockResolvedValue('0xsig' as `0x${string}`),
+    }
+    const client = new TrustClient({ account, fetch }, BASE)
+
+    await Promise.all([client.getScore(42220, 5), client.getScore(42220, 5)])
+    expect(account.signTypedData).toHaveBeenCalledOnce()
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('TrustClient — maxConcurrency', () => {
+  it('queues requests beyond the limit', async () => {
+    const { fetch, pending } = controlledFetch()
+    const client = new TrustClient({ apiKey: 'key', fetch, maxConcurrency: 2 }, BASE)
+
+    const calls = [1, 2, 3, 4].map((agentId) => client.getScore(42220, agentId))
+    await vi.waitFor(() => expect(pending).toHaveLength(2))
+    await Promise.resolve()
+    expect(fetch).toHaveBeenCalledTimes(2)
+
+    pending[0].resolve(okResponse({ score: { value: 1 } }))
+    await vi.waitFor(() => expect(pending).toHaveLength(3))
+    pending[1].resolve(okResponse({ score: { value: 2 } }))
+    await vi.waitFor(() => expect(pending).toHaveLength(4))
+    pending[2].resolve(okResponse({ score: { value: 3 } }))
+    pending[3].resolve(okResponse({ score: { value: 4 } }))
+
+    const results = await Promise.all(calls)
+    expect(results.map((r) => r.score.value)).toEqual([1, 2, 3, 4])
+  })
+})
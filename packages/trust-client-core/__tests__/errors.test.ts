@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  TrustClient,
+  TrustClientError,
+  NotFoundError,
+  RateLimitError,
+  ValidationError,
+  ServerError,
+  TimeoutError,
+  NetworkError,
+} from '../src'
+
+const BASE = 'https://test-oracle.example.com'
+
+function clientFor(status: number, body: unknown, headers?: Record<string, string>) {
+  const fetch = vi.fn().mockResolvedValue({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers ?? {}),
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  })
+  return new TrustClient({ apiKey: 'key', fetch }, BASE)
+}
+
+describe('TrustClient — typed errors', () => {
+  it('maps 404 to NotFoundError', async () => {
+    const err = await clientFor(404, { error: 'Agent not found' }).getAgent(42220, 999).catch((e) => e)
+    expect(err).toBeInstanceOf(NotFoundError)
+    expect(err).toBeInstanceOf(TrustClientError)
+    expect(err.status).toBe(404)
+    expect(err.body).toEqual({ error: 'Agent not found' })
+  })
+
+  it('maps 429 to RateLimitError with Retry-After hint', async () => {
+    const err = await clientFor(429, { error: 'slow down' }, { 'Retry-After': '30' })
+      .getScore(42220, 5)
+      .catch((e) => e)
+    expect(err).toBeInstanceOf(RateLimitError)
+    expect(err.retryAfterMs).toBe(30_000)
+  })
+
+  it('falls back to retryAfter in the body', async () => {
+    const err = await clientFor(429, { error: 'slow down', retryAfter: 5 }).getScore(42220, 5).catch((e) => e)
+    expect(err.retryAfterMs).toBe(5000)
+  })
+
+  it('leaves retryAfterMs undefined without a hint', async () => {
+    const err = await clientFor(429, { error: 'slow down' }).getScore(42220, 5).catch((e) => e)
+    expect(err.retryAfterMs).toBeUndefined()
+  })
+
+  it('maps 400 to ValidationError with field details', async () => {
+    const body = {
+      error: 'Invalid request',
+      details: [
+        { path: ['preset'], message: 'Invalid enum value' },
+        { field: 'agentId', message: 'Expected number' },
+        'chainId is required',
+      ],
+    }
+    const err = await clientFor(400, body)
+      .evaluate(42220, 5, { preset: 'default_safety' })
+      .catch((e) => e)
+    expect(err).toBeInstanceOf(ValidationError)
+    expect(err.status).toBe(400)
+    expect(err.details).toEqual([
+      { field: 'preset', message: 'Invalid enum value' },
+      { field: 'agentId', message: 'Expected number' },
+      { field: null, message: 'chainId is required' },
+    ])
+  })
+
+  it('maps 422 with a field map to ValidationError', async () => {
+    const body = { errors: { limit: ['must be positive', 'must be an integer'] } }
+    const err = await clientFor(422, body).getEvents(42220, 5, { limit: -1 }).catch((e) => e)
+    expect(err).toBeInstanceOf(ValidationError)
+    expect(err.status).toBe(422)
+    expect(err.details).toEqual([
+      { field: 'limit', message: 'must be positive' },
+      { field: 'limit', message: 'must be an integer' },
+    ])
+  })
+
+  it('returns empty details for a plain-text 400 body', async () => {
+    const err = await clientFor(400, 'bad request').search().catch((e) => e)
+    expect(err).toBeInstanceOf(ValidationError)
+    expect(err.details).toEqual([])
+  })
+
+  it.each([500, 502, 503, 504])('maps %i to ServerError', async (status) => {
+    const err = await clientFor(status, { error: 'boom' }).search().catch((e) => e)
+    expect(err).toBeInstanceOf(ServerError)
+    expect(err.status).toBe(status)
+  })
+
+  it('keeps other statuses as plain TrustClientError', async () => {
+    const err = await clientFor(409, { error: 'conflict' }).search().catch((e) => e)
+    expect(err.constructor).toBe(TrustClientError)
+    expect(err.status).toBe(409)
+  })
+})
+
+describe('TrustClient — transport errors', () => {
+  it('wraps fetch failures in NetworkError', async () => {
+    const cause = new TypeError('fetch failed')
+    const fetch = vi.fn().mockRejectedValue(cause)
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+
+    const err = await client.search().catch((e) => e)
+    expect(err).toBeInstanceOf(NetworkError)
+    expect(err).toBeInstanceOf(TrustClientError)
+    expect(err.status).toBe(0)
+    expect(err.cause).toBe(cause)
+    expect(err.message).toContain('fetch failed')
+  })
+
+  it('throws TimeoutError when timeoutMs elapses', async () => {
+    vi.useFakeTimers()
+    const fetch = vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+      return new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => {
+          reject(new DOMException('The operation was aborted.', 'AbortError'))
+        })
+      })
+    })
+    const client = new TrustClient({ apiKey: 'key', fetch, timeoutMs: 100 }, BASE)
+
+    const promise = client.search().catch((e) => e)
+    await vi.advanceTimersByTimeAsync(100)
+    const err = await promise
+    expect(err).toBeInstanceOf(TimeoutError)
+    expect(err.timeoutMs).toBe(100)
+
+    vi.useRealTimers()
+  })
+
+  it('propagates caller aborts untouched', async () => {
+    const controller = new AbortController()
+    const abortError = new DOMException('The operation was aborted.', 'AbortError')
+    const fetch = vi.fn().mockImplementation(() => {
+      controller.abort()
+      return Promise.reject(abortError)
+    })
+    const client = new TrustClient({ apiKey: 'key', fetch, signal: controller.signal }, BASE)
+
+    await expect(client.search()).rejects.toBe(abortError)
+  })
+})
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi } from 'vitest'
+import { TrustClient, trustGate, parseAgentId } from '../src'
+import type { Evaluation, ExpressLikeResponse, HonoLikeContext, TrustGateDecision } from '../src'
+
+const BASE = 'https://test-oracle.example.com'
+
+type Verdict = Pick<Evaluation, 'trust_band' | 'recommended_action' | 'rationale'>
+
+const AGENTS: Record<number, Verdict> = {
+  1: { trust_band: 'high', recommended_action: 'allow', rationale: 'Long positive history.' },
+  2: { trust_band: 'medium', recommended_action: 'review', rationale: 'Few interactions.' },
+  3: { trust_band: 'low', recommended_action: 'limit', rationale: 'Open critical incident.' },
+}
+
+function reply(status: number, body: unknown) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(),
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  } as unknown as Response
+}
+
+/** A TrustClient whose oracle answers from `AGENTS` (404 for others, 503 for agent 99) */
+function stubOracle() {
+  const fetch = vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+    const { chainId, agentId, preset } = JSON.parse(init.body as string)
+    if (agentId === 99) return Promise.resolve(reply(503, { error: 'down' }))
+    const verdict = AGENTS[agentId]
+    if (!verdict) return Promise.resolve(reply(404, { error: 'Agent not found' }))
+    return Promise.resolve(reply(200, { evaluation: { ...verdict, flags: [], preset, chainId, agentId } }))
+  })
+  return { fetch, client: new TrustClient({ apiKey: 'test_key', fetch }, BASE) }
+}
+
+describe('parseAgentId', () => {
+  it('accepts agent keys, CAIP-style and ERC-8004 registry identities', () => {
+    expect(parseAgentId('42220:5')).toEqual({ chainId: 42220, agentId: 5 })
+    expect(parseAgentId('eip155:42220:5')).toEqual({ chainId: 42220, agentId: 5 })
+    expect(parseAgentId('eip155:42220:0x8004A169FB4a3325136EB29fA0ceB6D2e539a432:5'))
+      .toEqual({ chainId: 42220, agentId: 5 })
+    expect(parseAgentId('cosmos:hub:5')).toBeUndefined()
+    expect(parseAgentId('42220')).toBeUndefined()
+  })
+})
+
+describe('trustGate.check', () => {
+  it('serves allow and review, refuses limit', async () => {
+    const gate = trustGate({ client: stubOracle().client })
+
+    expect(await gate.check('42220:1')).toMatchObject({ allowed: true, reason: null })
+    expect(await gate.check('42220:2')).toMatchObject({ allowed: true, reason: null })
+    expect(await gate.check('42220:3')).toMatchObject({
+      allowed: false,
+      reason: 'action_refused',
+      agent: { chainId: 42220, agentId: 3 },
+    })
+  })
+
+  it('applies minBand and maxAction', async () => {
+    const { client } = stubOracle()
+
+    expect((await trustGate({ client, minBand: 'high' }).check('42220:2')).reason).toBe('below_min_band')
+    expect((await trustGate({ client, maxAction: 'allow' }).check('42220:2')).reason).toBe('action_refused')
+    expect((await trustGate({ client, minBand: 'medium' }).check('42220:1')).allowed).toBe(true)
+  })
+
+  it('evaluates with the configured preset', async () => {
+    const { client, fetch } = stubOracle()
+    await trustGate({ client, preset: 'defi_counterparty', context: 'escrow' }).check('42220:1')
+
+    expect(JSON.parse(fetch.mock.calls[0][1].body)).toMatchObject({ preset: 'defi_counterparty', context: 'escrow' })
+  })
+
+  it('caches evaluations per agent until the TTL passes', async () => {
+    const { client, fetch } = stubOracle()
+    let now = 0
+    const gate = trustGate({ client, cacheTtlMs: 1000, clock: () => now })
+
+    const [a, b] = await Promise.all([gate.check('42220:1'), gate.check('eip155:42220:1')])
+    const c = await gate.check({ chainId: 42220, agentId: 1 })
+    expect([a.cached, b.cached, c.cached]).toEqual([false, false, true])
+    expect(fetch).toHaveBeenCalledOnce()
+
+    now = 1000
+    expect((await gate.check('42220:1')).cached).toBe(false)
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('fails closed without caching oracle errors', async () => {
+    const { client, fetch } = stubOracle()
+    const gate = trustGate({ client })
+
+    expect(await gate.check(undefined)).toMatchObject({ allowed: false, reason: 'missing_identity', agent: null })
+    expect((await gate.check('not-an-agent')).reason).toBe('invalid_identity')
+    expect((await gate.check('42220:404')).reason).toBe('unknown_agent')
+    expect((await gate.check('42220:99')).reason).toBe('oracle_unavailable')
+    expect((await gate.check('42220:99')).reason).toBe('oracle_unavailable')
+    expect(fetch).toHaveBeenCalledTimes(3)
+  })
+})
+
+describe('trustGate adapters', () => {
+  it('express: calls next when allowed and answers 403 with the rationale otherwise', async () => {
+    const gate = trustGate({ client: stubOracle().client })
+    const middleware = gate.express()
+
+    const run = (headers: Record<string, string>) =>
+      new Promise<{ nextCalled: boolean; status?: number; body?: unknown; locals: Record<string, unknown> }>((resolve) => {
+        const result = { nextCalled: false, locals: {} as Record<string, unknown> }
+        const res: ExpressLikeResponse = {
+          locals: result.locals,
+          status: (status) => ({ json: (body) => resolve({ ...result, status, body }) }),
+        }
+        middleware({ headers }, res, () => resolve({ ...result, nextCalled: true }))
+      })
+
+    const allowed = await run({ 'x-agent-id': '42220:1' })
+    expect(allowed.nextCalled).toBe(true)
+    expect((allowed.locals.trust as TrustGateDecision).evaluation?.trust_band).toBe('high')
+
+    const refused = await run({ 'x-agent-id': '42220:3' })
+    expect(refused.status).toBe(403)
+    expect(refused.body).toEqual({
+      error: 'trust_gate_denied',
+      reason: 'action_refused',
+      agent: { chainId: 42220, agentId: 3 },
+      rationale: 'Open critical incident.',
+      trust_band: 'low',
+      recommended_action: 'limit',
+    })
+
+    expect((await run({})).status).toBe(401)
+  })
+
+  it('hono: stores the decision on the context', async () => {
+    const gate = trustGate({ client: stubOracle().client, header: 'X-Caller' })
+    const context = (headers: Record<string, string>) => {
+      const vars = new Map<string, unknown>()
+      const c: HonoLikeContext = {
+        req: { header: (name) => headers[name], raw: new Request('https://agent.example/a2a') },
+        set: (key, value) => vars.set(key, value),
+        json: (body, status) => Response.json(body, { status }),
+      }
+      return { c, vars }
+    }
+    const next = vi.fn().mockResolvedValue(undefined)
+
+    const ok = context({ 'X-Caller': 'eip155:42220:2' })
+    await expect(gate.hono()(ok.c, next)).resolves.toBeUndefined()
+    expect(next).toHaveBeenCalledOnce()
+    expect((ok.vars.get('trust') as TrustGateDecision).evaluation?.recommended_action).toBe('review')
+
+    const refused = await gate.hono()(context({ 'X-Caller': '42220:3' }).c, next)
+    expect(refused?.status).toBe(403)
+    expect(next).toHaveBeenCalledOnce()
+  })
+
+  it('fetch: wraps a Request handler and supports custom extractors', async () => {
+    const gate = trustGate({ client: stubOracle().client })
+    const handler = vi.fn().mockImplementation((_request: Request, decision: TrustGateDecision) =>
+      Response.json({ served: decision.agent }),
+    )
+    // Identity in the URL instead of a header
+    const serve = gate.fetch(handler, {
+      extract: (request) => new URL(request.url).searchParams.get('agent'),
+    })
+
+    const ok = await serve(new Request('https://agent.example/a2a?agent=eip155:42220:1'))
+    expect(await ok.json()).toEqual({ served: { chainId: 42220, agentId: 1 } })
+
+    const refused = await serve(new Request('https://agent.example/a2a?agent=42220:3'))
+    expect(refused.status).toBe(403)
+    expect(refused.headers.get('Content-Type')).toBe('application/json')
+    expect(await refused.json()).toMatchObject({ reason: 'action_refused', rationale: 'Open critical incident.' })
+
+    const down = await serve(new Request('https://agent.example/a2a?agent=42220:99'))
+    expect(down.status).toBe(503)
+    expect(handler).toHaveBeenCalledOnce()
+  })
+})
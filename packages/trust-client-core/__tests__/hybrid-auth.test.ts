@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { TrustClient, RateLimitError, PaymentRequiredError } from '../src'
+import type { HybridConfig } from '../src'
+
+const BASE = 'https://test-oracle.example.com'
+
+function response(status: number, body: unknown, headers?: Record<string, string>) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers ?? {}),
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  } as unknown as Response
+}
+
+const PAYMENT_REQUIRED = {
+  x402Version: 2,
+  accepts: [{
+    scheme: 'exact',
+    network: 'eip155:42220',
+    amount: '1000',
+    asset: '0xcebA9300f2b948710d2653dD7B07f33A8B32118C',
+    payTo: '0xPayTo',
+    maxTimeoutSeconds: 30,
+    extra: { assetTransferMethod: 'eip3009', name: 'USD Coin', version: '2' },
+  }],
+  resource: { url: `${BASE}/api/v1/agent/42220/5/score`, description: 'Trust score', mimeType: 'application/json' },
+  error: 'missing payment header',
+}
+
+const paymentRequired = () =>
+  response(402, PAYMENT_REQUIRED, { 'payment-required': btoa(JSON.stringify(PAYMENT_REQUIRED)) })
+
+/** Oracle whose API key answers with `keyResponse`; unauthenticated calls get a 402 */
+function oracle(keyResponse: () => Response) {
+  return vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+    const headers = init.headers as Record<string, string>
+    if (headers['X-PAYMENT']) return Promise.resolve(response(200, { score: { value: 80 }, paid: true }))
+    if (headers.Authorization) return Promise.resolve(keyResponse())
+    return Promise.resolve(paymentRequired())
+  })
+}
+
+function makeAccount() {
+  return {
+    address: '0x1234567890abcdef1234567890abcdef12345678' as `0x${string}`,
+    signTypedData: vi.fn().mockResolvedValue('0xsig' as `0x${string}`),
+  }
+}
+
+function hybrid(fetch: typeof globalThis.fetch, overrides: Partial<HybridConfig> = {}) {
+  return new TrustClient({ apiKey: 'key', account: makeAccount(), fetch, fallback: {}, ...overrides }, BASE)
+}
+
+describe('TrustClient — hybrid auth', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('uses the API key while it works', async () => {
+    const fetch = oracle(() => response(200, { score: { value: 80 } }))
+    const client = hybrid(fetch)
+
+    await expect(client.getScore(42220, 5)).resolves.toEqual({ score: { value: 80 } })
+    expect(fetch).toHaveBeenCalledOnce()
+    expect(fetch.mock.calls[0][1].headers.Authorization).toBe('Bearer key')
+  })
+
+  it('never pays without a fallback policy', async () => {
+    const fetch = oracle(() => response(429, { error: 'quota exhausted' }))
+    const account = makeAccount()
+    const client = new TrustClient({ apiKey: 'key', account, fetch }, BASE)
+
+    await expect(client.getScore(42220, 5)).rejects.toThrow(RateLimitError)
+    expect(fetch.mock.calls.every(([, init]) => init.headers.Authorization === 'Bearer key')).toBe(true)
+    expect(account.signTypedData).not.toHaveBeenCalled()
+  })
+
+  it('pays a 402 returned to the API key, without sending the key', async () => {
+    const fetch = oracle(paymentRequired)
+    const client = hybrid(fetch)
+
+    const { data, payment } = await client.withMeta().getScore(42220, 5)
+
+    expect(data).toEqual({ score: { value: 80 }, paid: true })
+    expect(payment?.requirement.amount).toBe('1000')
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect(fetch.mock.calls[1][1].headers.Authorization).toBeUndefined()
+  })
+
+  it('falls back when the key is rate limited and skips it until Retry-After', async () => {
+    vi.useFakeTimers()
+    const fetch = oracle(() => response(429, { error: 'quota exhausted' }, { 'retry-after': '120' }))
+    const client = hybrid(fetch)
+
+    await expect(client.getScore(42220, 5)).resolves.toMatchObject({ paid: true })
+    // key 429, unauthenticated 402, paid retry
+    expect(fetch).toHaveBeenCalledTimes(3)
+
+    await client.getScore(42220, 6)
+    expect(fetch).toHaveBeenCalledTimes(5)
+    expect(fetch.mock.calls[3][1].headers.Authorization).toBeUndefined()
+
+    vi.advanceTimersByTime(120_001)
+    await client.getScore(42220, 7)
+    expect(fetch.mock.calls[5][1].headers.Authorization).toBe('Bearer key')
+  })
+
+  it('only falls back for allowed endpoints', async () => {
+    const fetch = oracle(() => response(429, { error: 'quota exhausted' }))
+    const client = hybrid(fetch, { fallback: { endpoints: ['getScore', '/trust/evaluate'] } })
+
+    await expect(client.getSignals(42220, 5)).rejects.toThrow(RateLimitError)
+    await expect(client.getScore(42220, 5)).resolves.toMatchObject({ paid: true })
+    // The cooldown does not unlock endpoints outside the policy
+    await expect(client.getSignals(42220, 5)).rejects.toThrow(RateLimitError)
+    expect(fetch.mock.calls[4][1].headers.Authorization).toBe('Bearer key')
+  })
+
+  it('honors onStatus and shouldFallback', async () => {
+    const fetch = oracle(paymentRequired)
+    const shouldFallback = vi.fn().mockReturnValue(false)
+    const client = hybrid(fetch, { fallback: { shouldFallback } })
+
+    await expect(client.getScore(42220, 5)).rejects.toThrow(PaymentRequiredError)
+    expect(shouldFallback).toHaveBeenCalledWith(
+      expect.objectContaining({ method: 'getScore' }),
+      expect.objectContaining({ status: 402 }),
+    )
+
+    const keyOnly = hybrid(oracle(paymentRequired), { fallback: { onStatus: [429] } })
+    await expect(keyOnly.getScore(42220, 5)).rejects.toThrow(PaymentRequiredError)
+  })
+
+  it('applies the payment policy to fallback payments', async () => {
+    const fetch = oracle(paymentRequired)
+    const client = hybrid(fetch, { paymentPolicy: { maxAmountPerRequest: '500' } })
+
+    await expect(client.getScore(42220, 5)).rejects.toThrow('exceeds')
+    expect(fetch).toHaveBeenCalledOnce()
+  })
+})
@@ -0,0 +1,262 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  TrustClient,
+  PaymentRequiredError,
+  MemoryPaymentLedger,
+  JsonlPaymentLedger,
+  spendByPeriod,
+  spendByEndpoint,
+  ledgerToCsv,
+} from '../src'
+import type { LedgerEntry, PaymentLedger } from '../src'
+
+const BASE = 'https://test-oracle.example.com'
+const USDC = '0xcebA9300f2b948710d2653dD7B07f33A8B32118C'
+
+function response(status: number, body: unknown, headers?: Record<string, string>) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers ?? {}),
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  } as unknown as Response
+}
+
+const PAYMENT_REQUIRED = {
+  x402Version: 2,
+  accepts: [{
+    scheme: 'exact',
+    network: 'eip155:42220',
+    amount: '1000',
+    asset: USDC,
+    payTo: '0xPayTo',
+    maxTimeoutSeconds: 30,
+    extra: { assetTransferMethod: 'eip3009', name: 'USD Coin', version: '2' },
+  }],
+  resource: { url: `${BASE}/api/v1/agent/42220/5/score`, description: 'Trust score', mimeType: 'application/json' },
+  error: 'missing payment header',
+}
+
+function paidFetch(receipt?: Record<string, unknown>) {
+  return vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+    const headers = init.headers as Record<string, string>
+    if (!headers['X-PAYMENT']) {
+      return Promise.resolve(
+        response(402, PAYMENT_REQUIRED, { 'payment-required': btoa(JSON.stringify(PAYMENT_REQUIRED)) }),
+      )
+    }
+    return Promise.resolve(
+      response(200, { score: { value: 80 } }, receipt ? { 'payment-response': btoa(JSON.stringify(receipt)) } : {}),
+    )
+  })
+}
+
+const account = {
+  address: '0x1234567890abcdef1234567890abcdef12345678' as `0x${string}`,
+  signTypedData: vi.fn().mockResolvedValue('0xsig' as `0x${string}`),
+}
+
+function entry(overrides: Partial<LedgerEntry> = {}): LedgerEntry {
+  return {
+    nonce: `0x${Math.random().toString(16).slice(2)}`,
+    signedAt: '2026-10-19T18:30:00.000Z',
+    status: 'signed',
+    amount: '1000',
+    asset: USDC,
+    network: 'eip155:42220',
+    payTo: '0xPayTo',
+    payer: account.address,
+    resourceUrl: `${BASE}/api/v1/agent/42220/5/score`,
+    method: 'getScore',
+    endpoint: '/agent/:chainId/:agentId/score',
+    chainId: 42220,
+    agentId: 5,
+    ...overrides,
+  }
+}
+
+describe('TrustClient — ledger', () => {
+  it('records the signed authorization and its receipt', async () => {
+    const ledger = new MemoryPaymentLedger()
+    const receipt = { success: true, transaction: '0xtx', network: 'eip155:42220', payer: account.address }
+    const client = new TrustClient({ account, fetch: paidFetch(receipt), ledger }, BASE)
+
+    const { payment } = await client.withMeta().getScore(42220, 5)
+
+    const [recorded] = await ledger.entries()
+    expect(recorded).toMatchObject({
+      nonce: payment?.authorization.nonce,
+      status: 'settled',
+      amount: '1000',
+      asset: USDC,
+      payTo: '0xPayTo',
+      payer: account.address,
+      resourceUrl: PAYMENT_REQUIRED.resource.url,
+      method: 'getScore',
+      endpoint: '/agent/:chainId/:agentId/score',
+      chainId: 42220,
+      agentId: 5,
+      receipt,
+    })
+  })
+
+  it('keeps unsettled entries as signed', async () => {
+    const ledger = new MemoryPaymentLedger()
+    const client = new TrustClient({ account, fetch: paidFetch(), ledger }, BASE)
+
+    await client.getScore(42220, 5)
+
+    expect((await ledger.entries())[0].status).toBe('signed')
+  })
+
+  it('marks a payment the server still answers with 402 as failed', async () => {
+    const ledger = new MemoryPaymentLedger()
+    const fetch = vi.fn().mockResolvedValue(
+      response(402, PAYMENT_REQUIRED, { 'payment-required': btoa(JSON.stringify(PAYMENT_REQUIRED)) }),
+    )
+    const client = new TrustClient({ account, fetch, ledger }, BASE)
+
+    await expect(client.getScore(42220, 5)).rejects.toBeInstanceOf(PaymentRequiredError)
+
+    const entries = await ledger.entries()
+    expect(entries.map((e) => e.status)).toEqual(['failed'])
+    expect(entries[0].receipt).toMatchObject({ success: false, errorReason: 'rejected' })
+    expect(spendByEndpoint(entries)).toEqual([])
+  })
+
+  it('does not send the payment when recording fails', async () => {
+    const ledger: PaymentLedger = {
+      record: vi.fn().mockRejectedValue(new Error('db down')),
+      settle: vi.fn(),
+      entries: vi.fn(),
+    }
+    const fetch = paidFetch()
+    const client = new TrustClient({ account, fetch, ledger }, BASE)
+
+    await expect(client.getScore(42220, 5)).rejects.toThrow('db down')
+    expect(fetch).toHaveBeenCalledOnce()
+  })
+
+  it('still returns paid data when settle fails, and reports the failure', async () => {
+    const warn = vi.spyOn(console, 'warn')
+    const onLedgerError = vi.fn()
+    const ledger: PaymentLedger = {
+      record: vi.fn().mockResolvedValue(undefined),
+      settle: vi.fn().mockRejectedValue(new Error('db down')),
+      entries: vi.fn(),
+    }
+    const receipt = { success: true, transaction: '0xtx', network: 'eip155:42220' }
+    const client = new TrustClient({ account, fetch: paidFetch(receipt), ledger, onLedgerError }, BASE)
+
+    const { data, payment } = await client.withMeta().getScore(42220, 5)
+
+    expect(data).toEqual({ score: { value: 80 } })
+    expect(onLedgerError).toHaveBeenCalledWith(expect.objectContaining({ message: 'db down' }), payment?.authorization.nonce)
+    expect(warn).not.toHaveBeenCalled()
+    warn.mockRestore()
+  })
+})
+
+describe('MemoryPaymentLedger', () => {
+  it('filters by period, endpoint and agent', async () => {
+    const ledger = new MemoryPaymentLedger()
+    await ledger.record(entry({ nonce: 'a', signedAt: '2026-09-30T23:59:59.000Z' }))
+    await ledger.record(entry({ nonce: 'b', signedAt: '2026-10-01T00:00:00.000Z', agentId: 6 }))
+    await ledger.record(entry({ nonce: 'c', signedAt: '2026-10-15T00:00:00.000Z', endpoint: '/trust/evaluate' }))
+
+    const october = await ledger.entries({ from: new Date('2026-10-01'), to: new Date('2026-11-01') })
+    expect(october.map((e) => e.nonce)).toEqual(['b', 'c'])
+    expect((await ledger.entries({ endpoint: '/trust/evaluate' })).map((e) => e.nonce)).toEqual(['c'])
+    expect((await ledger.entries({ chainId: 42220, agentId: 6 })).map((e) => e.nonce)).toEqual(['b'])
+  })
+})
+
+describe('JsonlPaymentLedger', () => {
+  let dir: string | undefined
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true })
+    dir = undefined
+  })
+
+  it('appends entries and receipts and merges them on read', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ledger-'))
+    const path = join(dir, 'payments.jsonl')
+    const ledger = new JsonlPaymentLedger(path)
+
+    expect(await ledger.entries()).toEqual([])
+
+    await ledger.record(entry({ nonce: '0x1' }))
+    await ledger.record(entry({ nonce: '0x2' }))
+    await ledger.settle('0x1', { success: false, transaction: '', network: 'eip155:42220', errorReason: 'expired' })
+
+    const lines = (await readFile(path, 'utf8')).trim().split('\n')
+    expect(lines).toHaveLength(3)
+
+    const entries = await new JsonlPaymentLedger(path).entries()
+    expect(entries.map((e) => [e.nonce, e.status])).toEqual([['0x1', 'failed'], ['0x2', 'signed']])
+    expect(entries[0].receipt?.errorReason).toBe('expired')
+  })
+
+  it('accepts an injected file system', async () => {
+    let contents = ''
+    const fs = {
+      appendFile: async (_path: string, data: string) => {
+        contents += data
+      },
+      readFile: async () => contents,
+    }
+    const ledger = new JsonlPaymentLedger('ledger.jsonl', { fs })
+
+    await ledger.record(entry({ nonce: '0x1' }))
+
+    expect(JSON.parse(contents).nonce).toBe('0x1')
+    expect(await ledger.entries()).toHaveLength(1)
+  })
+})
+
+describe('spend reports', () => {
+  const entries = [
+    entry({ signedAt: '2026-09-30T10:00:00.000Z', amount: '1000' }),
+    entry({ signedAt: '2026-10-01T10:00:00.000Z', amount: '2000' }),
+    entry({ signedAt: '2026-10-02T10:00:00.000Z', amount: '500', endpoint: '/trust/evaluate' }),
+    entry({ signedAt: '2026-10-03T10:00:00.000Z', amount: '9999', status: 'failed' }),
+  ]
+
+  it('sums spend per month, excluding failed settlements', () => {
+    expect(spendByPeriod(entries, 'month')).toEqual([
+      { key: '2026-09', asset: USDC.toLowerCase(), amount: '1000', count: 1 },
+      { key: '2026-10', asset: USDC.toLowerCase(), amount: '2500', count: 2 },
+    ])
+    expect(spendByPeriod(entries).map((s) => s.key)).toEqual(['2026-09-30', '2026-10-01', '2026-10-02'])
+  })
+
+  it('sums spend per endpoint', () => {
+    expect(spendByEndpoint(entries)).toEqual([
+      { key: '/agent/:chainId/:agentId/score', asset: USDC.toLowerCase(), amount: '3000', count: 2 },
+      { key: '/trust/evaluate', asset: USDC.toLowerCase(), amount: '500', count: 1 },
+    ])
+  })
+
+  it('exports CSV with a header row and escaped cells', () => {
+    const csv = ledgerToCsv([
+      entry({
+        nonce: '0x1',
+        resourceUrl: 'https://x.example/a,b',
+        receipt: { success: true, transaction: '0xtx', network: 'eip155:42220' },
+        status: 'settled',
+      }),
+    ])
+
+    const [header, row] = csv.trim().split('\n')
+    expect(header).toBe(
+      'signedAt,status,nonce,amount,asset,network,payTo,payer,resourceUrl,method,endpoint,chainId,agentId,transaction',
+    )
+    expect(row).toContain(',"https://x.example/a,b",')
+    expect(row.endsWith(',42220,5,0xtx')).toBe(true)
+  })
+})
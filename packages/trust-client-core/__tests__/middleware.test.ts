@@ -0,0 +1,213 @@
+import { describe, it, expect, vi } from 'vitest'
+import { TrustClient, NotFoundError, ServerError } from '../src'
+import type { Middleware } from '../src'
+
+const BASE = 'https://test-oracle.example.com'
+
+function response(status: number, body: unknown, headers?: Record<string, string>) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers ?? {}),
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  } as unknown as Response
+}
+
+const PAYMENT_REQUIRED = {
+  x402Version: 2,
+  accepts: [{
+    scheme: 'exact',
+    network: 'eip155:42220',
+    amount: '1000',
+    asset: '0xcebA9300f2b948710d2653dD7B07f33A8B32118C',
+    payTo: '0xPayTo',
+    maxTimeoutSeconds: 30,
+    extra: { assetTransferMethod: 'eip3009', name: 'USD Coin', version: '2' },
+  }],
+  resource: { url: `${BASE}/api/v1/agent/42220/5/score`, description: 'Trust score', mimeType: 'application/json' },
+  error: 'missing payment header',
+}
+
+describe('TrustClient — middleware', () => {
+  it('onRequest can add headers', async () => {
+    const fetch = vi.fn().mockResolvedValue(response(200, {}))
+    const tracing: Middleware = {
+      onRequest(ctx) {
+        ctx.request.headers['X-Trace-Id'] = 'trace-1'
+      },
+    }
+    const client = new TrustClient({ apiKey: 'key', fetch, middleware: [tracing] }, BASE)
+
+    await client.getAgent(42220, 5)
+
+    expect(fetch.mock.calls[0][1].headers).toEqual({
+      'X-Trace-Id': 'trace-1',
+      Authorization: 'Bearer key',
+    })
+  })
+
+  it('user middleware runs before auth is attached', async () => {
+    const seen: Array<Record<string, string>> = []
+    const logger: Middleware = {
+      onRequest(ctx) {
+        seen.push({ ...ctx.request.headers })
+      },
+    }
+    const fetch = vi.fn().mockResolvedValue(response(200, {}))
+    const client = new TrustClient({ apiKey: 'secret', fetch, middleware: [logger] }, BASE)
+
+    await client.getAgent(42220, 5)
+
+    expect(seen).toEqual([{}])
+  })
+
+  it('async onRequest hooks are awaited', async () => {
+    const fetch = vi.fn().mockResolvedValue(response(200, {}))
+    const tenant: Middleware = {
+      async onRequest(ctx) {
+        await Promise.resolve()
+        ctx.request.headers['X-Tenant'] = 'acme'
+      },
+    }
+    const client = new TrustClient({ apiKey: 'key', fetch, middleware: [tenant] }, BASE)
+
+    await client.search()
+
+    expect(fetch.mock.calls[0][1].headers['X-Tenant']).toBe('acme')
+  })
+
+  it('runs onRequest in order and onResponse in reverse', async () => {
+    const order: string[] = []
+    const named = (name: string): Middleware => ({
+      onRequest: () => {
+        order.push(`req:${name}`)
+      },
+      onResponse: () => {
+        order.push(`res:${name}`)
+      },
+    })
+    const fetch = vi.fn().mockResolvedValue(response(200, {}))
+    const client = new TrustClient({ apiKey: 'key', fetch, middleware: [named('a'), named('b')] }, BASE)
+
+    await client.search()
+
+    expect(order).toEqual(['req:a', 'req:b', 'res:b', 'res:a'])
+  })
+
+  it('onResponse can replace the response', async () => {
+    const fetch = vi.fn().mockResolvedValue(response(200, { score: { value: 50 } }))
+    const override: Middleware = {
+      onResponse: () => response(200, { score: { value: 99 } }),
+    }
+    const client = new TrustClient({ apiKey: 'key', fetch, middleware: [override] }, BASE)
+
+    const result = await client.getScore(42220, 5)
+
+    expect(result.score.value).toBe(99)
+  })
+
+  it('onResponse sees the paid response, after the x402 middleware', async () => {
+    const statuses: number[] = []
+    const observer: Middleware = {
+      onResponse(res) {
+        statuses.push(res.status)
+      },
+    }
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(
+        response(402, PAYMENT_REQUIRED, { 'payment-required': btoa(JSON.stringify(PAYMENT_REQUIRED)) }),
+      )
+      .mockResolvedValueOnce(response(200, { score: { value: 80 } }))
+    const account = {
+      address: '0x1234567890abcdef1234567890abcdef12345678' as `0x${string}`,
+      signTypedData: vi.fn().mockResolvedValue('0xsig' as `0x${string}`),
+    }
+    const tracing: Middleware = {
+      onRequest(ctx) {
+        ctx.request.headers['X-Trace-Id'] = 't'
+      },
+    }
+    const client = new TrustClient({ account, fetch, middleware: [tracing, observer] }, BASE)
+
+    await client.getScore(42220, 5)
+
+    expect(statuses).toEqual([200])
+    // The paid retry keeps headers added by earlier middlewares
+    expect(fetch.mock.calls[1][1].headers).toMatchObject({ 'X-Trace-Id': 't', 'X-PAYMENT': expect.any(String) })
+  })
+
+  it('onError receives typed errors and can recover with a Response', async () => {
+    const fetch = vi.fn().mockResolvedValue(response(404, { error: 'Agent not found' }))
+    const errors: unknown[] = []
+    const fallback: Middleware = {
+      onError(error) {
+        errors.push(error)
+        if (error instanceof NotFoundError) return response(200, { agent: null })
+      },
+    }
+    const client = new TrustClient({ apiKey: 'key', fetch, middleware: [fallback] }, BASE)
+
+    await expect(client.getAgent(42220, 5)).resolves.toEqual({ agent: null })
+    expect(errors[0]).toBeInstanceOf(NotFoundError)
+    expect((errors[0] as NotFoundError).body).toEqual({ error: 'Agent not found' })
+  })
+
+  it('onError can replace the error by throwing', async () => {
+    const fetch = vi.fn().mockResolvedValue(response(503, {}))
+    const wrap: Middleware = {
+      onError(error) {
+        if (error instanceof ServerError) throw new Error('oracle unavailable')
+      },
+    }
+    const client = new TrustClient({ apiKey: 'key', fetch, middleware: [wrap] }, BASE)
+
+    await expect(client.search()).rejects.toThrow('oracle unavailable')
+  })
+
+  it('passes errors through when no middleware recovers', async () => {
+    const fetch = vi.fn().mockResolvedValue(response(503, {}))
+    const onError = vi.fn()
+    const client = new TrustClient({ apiKey: 'key', fetch, middleware: [{ onError }] }, BASE)
+
+    await expect(client.search()).rejects.toThrow(ServerError)
+    expect(onError).toHaveBeenCalledOnce()
+  })
+
+  it('shares state and per-call options across hooks', async () => {
+    const fetch = vi.fn().mockResolvedValue(response(200, {}))
+    let elapsed: unknown
+    const timing: Middleware = {
+      onRequest(ctx) {
+        ctx.state.startedAt = 1
+      },
+      onResponse(_res, ctx) {
+        elapsed = { start: ctx.state.startedAt, cache: ctx.options.cache }
+      },
+    }
+    const client = new TrustClient({ apiKey: 'key', fetch, middleware: [timing] }, BASE)
+
+    await client.getScore(42220, 5, { cache: false })
+
+    expect(elapsed).toEqual({ start: 1, cache: false })
+  })
+
+  it('ctx.fetch re-sends through the transport without re-running onRequest', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(response(401, { error: 'expired' }))
+      .mockResolvedValueOnce(response(200, { agents: [], count: 0 }))
+    const onRequest = vi.fn()
+    const refreshAuth: Middleware = {
+      onRequest,
+      async onResponse(res, ctx) {
+        if (res.status !== 401) return
+        return ctx.fetch({ ...ctx.request, headers: { ...ctx.request.headers, Authorization: 'Bearer fresh' } })
+      },
+    }
+    const client = new TrustClient({ apiKey: 'stale', fetch, middleware: [refreshAuth] }, BASE)
+
+    await expect(client.search()).resolves.toEqual({ agents: [], count: 0 })
+    expect(onRequest).toHaveBeenCalledOnce()
+    expect(fetch.mock.calls[1][1].headers.Authorization).toBe('Bearer fresh')
+  })
+})
@@ -0,0 +1,204 @@
+import { describe, it, expect, vi } from 'vitest'
+import { TrustClient } from '../src'
+
+const BASE = 'https://test-oracle.example.com'
+
+function response(body: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    headers: new Headers(),
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  }
+}
+
+/** Serves `total` events with offset/limit paging, like the oracle */
+function eventsFetch(total: number) {
+  return vi.fn().mockImplementation((url: string) => {
+    const params = new URL(url).searchParams
+    const limit = Number(params.get('limit'))
+    const offset = Number(params.get('offset'))
+    const events = Array.from(
+      { length: Math.max(0, Math.min(limit, total - offset)) },
+      (_, i) => ({ id: offset + i, kind: params.get('kind') ?? 'feedback' }),
+    )
+    return Promise.resolve(
+      response({ events, pagination: { total, limit, offset, hasMore: offset + events.length < total } }),
+    )
+  })
+}
+
+/** Serves `total` search results; no total or hasMore, like the oracle */
+function searchFetch(total: number, maxLimit = Infinity) {
+  return vi.fn().mockImplementation((url: string) => {
+    const params = new URL(url).searchParams
+    const limit = Math.min(Number(params.get('limit')), maxLimit)
+    const offset = Number(params.get('offset'))
+    const agents = Array.from(
+      { length: Math.max(0, Math.min(limit, total - offset)) },
+      (_, i) => ({ chainId: 42220, agentId: offset + i }),
+    )
+    return Promise.resolve(response({ agents, count: agents.length }))
+  })
+}
+
+describe('TrustClient.iterateEvents', () => {
+  it('walks every page', async () => {
+    const fetch = eventsFetch(7)
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+
+    const ids: number[] = []
+    for await (const event of client.iterateEvents(42220, 5, { pageSize: 3 })) {
+      ids.push(event.id)
+    }
+
+    expect(ids).toEqual([0, 1, 2, 3, 4, 5, 6])
+    expect(fetch).toHaveBeenCalledTimes(3)
+    expect(fetch.mock.calls[2][0]).toBe(`${BASE}/api/v1/agent/42220/5/events?limit=3&offset=6`)
+  })
+
+  it('passes kind through to every page', async () => {
+    const fetch = eventsFetch(4)
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+
+    await client.iterateEvents(42220, 5, { kind: 'validation', pageSize: 2 }).collect()
+
+    for (const [url] of fetch.mock.calls) {
+      expect(new URL(url).searchParams.get('kind')).toBe('validation')
+    }
+  })
+
+  it('stops fetching on early break', async () => {
+    const fetch = eventsFetch(100)
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+
+    for await (const event of client.iterateEvents(42220, 5, { pageSize: 10 })) {
+      if (event.id === 4) break
+    }
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('collect({ max }) fetches only the pages it needs', async () => {
+    const fetch = eventsFetch(100)
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+
+    const events = await client.iterateEvents(42220, 5, { pageSize: 10 }).collect({ max: 15 })
+
+    expect(events).toHaveLength(15)
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('restarts from the first page on each iteration', async () => {
+    const fetch = eventsFetch(2)
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+    const iterator = client.iterateEvents(42220, 5)
+
+    expect(await iterator.collect()).toHaveLength(2)
+    expect(await iterator.collect()).toHaveLength(2)
+  })
+
+  it('propagates the abort signal to fetch and between pages', async () => {
+    const controller = new AbortController()
+    const fetch = eventsFetch(10)
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+
+    const seen: number[] = []
+    const iterate = async () => {
+      for await (const event of client.iterateEvents(42220, 5, { pageSize: 2, signal: controller.signal })) {
+        seen.push(event.id)
+        if (event.id === 1) controller.abort(new Error('stop'))
+      }
+    }
+
+    await expect(iterate()).rejects.toThrow('stop')
+    expect(seen).toEqual([0, 1])
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(fetch.mock.calls[0][1].signal).toBe(controller.signal)
+  })
+})
+
+describe('TrustClient.iterateSearch', () => {
+  it('pages until an empty page is returned', async () => {
+    const fetch = searchFetch(5)
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+
+    const agents = await client.iterateSearch({ chainId: 42220, pageSize: 2 }).collect()
+
+    expect(agents.map((a) => a.agentId)).toEqual([0, 1, 2, 3, 4])
+    expect(fetch).toHaveBeenCalledTimes(4)
+    expect(fetch.mock.calls[1][0]).toBe(`${BASE}/api/v1/search?chainId=42220&limit=2&offset=2`)
+  })
+
+  it('keeps paging when the server caps the page size', async () => {
+    const fetch = searchFetch(45, 20)
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+
+    const agents = await client.iterateSearch().collect()
+
+    expect(agents).toHaveLength(45)
+    expect(fetch.mock.calls.map(([url]) => new URL(url).searchParams.get('offset'))).toEqual(['0', '20', '40', '45'])
+  })
+
+  it('stops after an empty page when results divide evenly', async () => {
+    const fetch = searchFetch(4)
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+
+    const agents = await client.iterateSearch({ pageSize: 2 }).collect()
+
+    expect(agents).toHaveLength(4)
+    expect(fetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('stops when the server ignores offset', async () => {
+    const fetch = vi.fn().mockImplementation(() => {
+      if (fetch.mock.calls.length > 5) throw new Error('did not stop')
+      const agents = [0, 1, 2].map((agentId) => ({ chainId: 42220, agentId }))
+      return Promise.resolve(response({ agents, count: agents.length }))
+    })
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+    const iterator = client.iterateSearch({ pageSize: 3 })
+
+    expect((await iterator.collect()).map((a) => a.agentId)).toEqual([0, 1, 2])
+    expect(fetch).toHaveBeenCalledTimes(2)
+    // A fresh iteration starts over rather than treating page one as seen
+    expect(await iterator.collect()).toHaveLength(3)
+  })
+})
+
+describe('TrustClient — per-call signal', () => {
+  it('aborts only the call that owns the signal', async () => {
+    const controller = new AbortController()
+    const fetch = vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+      return new Promise((resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(init.signal?.reason))
+        setTimeout(() => resolve(response({ agents: [], count: 0 })), 10)
+      })
+    })
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+
+    const aborted = client.search({ signal: controller.signal })
+    const other = client.search()
+    controller.abort(new Error('cancelled'))
+
+    await expect(aborted).rejects.toThrow('cancelled')
+    await expect(other).resolves.toEqual({ agents: [], count: 0 })
+  })
+
+  it('combines the per-call signal with the client signal', async () => {
+    const clientController = new AbortController()
+    const callController = new AbortController()
+    const fetch = vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+      return new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(init.signal?.reason))
+      })
+    })
+    const client = new TrustClient({ apiKey: 'key', fetch, signal: clientController.signal }, BASE)
+
+    const promise = client.search({ signal: callController.signal })
+    clientController.abort(new Error('shutdown'))
+
+    await expect(promise).rejects.toThrow('shutdown')
+  })
+})
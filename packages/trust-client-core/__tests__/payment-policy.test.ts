@@ -0,0 +1,178 @@
+import { describe, it, expect, vi } from 'vitest'
+import { TrustClient, PaymentPolicyError } from '../src'
+import type { PaymentPolicy } from '../src'
+import { PaymentPolicyGuard } from '../src/payment-policy'
+
+const BASE = 'https://test-oracle.example.com'
+const USDC = '0xcebA9300f2b948710d2653dD7B07f33A8B32118C'
+
+function response(status: number, body: unknown, headers?: Record<string, string>) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers ?? {}),
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  } as unknown as Response
+}
+
+function paymentRequired() {
+  const body = {
+    x402Version: 2,
+    accepts: [{
+      scheme: 'exact',
+      network: 'eip155:42220',
+      amount: '1000',
+      asset: USDC,
+      payTo: '0xPayTo',
+      maxTimeoutSeconds: 30,
+      extra: { assetTransferMethod: 'eip3009', name: 'USD Coin', version: '2' },
+    }],
+    resource: { url: `${BASE}/api/v1/agent/42220/5/score`, description: 'Trust score', mimeType: 'application/json' },
+    error: 'missing payment header',
+  }
+  return response(402, body, { 'payment-required': btoa(JSON.stringify(body)) })
+}
+
+function setup(paymentPolicy: PaymentPolicy) {
+  const fetch = vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+    const headers = init.headers as Record<string, string>
+    return Promise.resolve(
+      headers['X-PAYMENT'] ? response(200, { score: { value: 80 } }) : paymentRequired(),
+    )
+  })
+  const account = {
+    address: '0x1234567890abcdef1234567890abcdef12345678' as `0x${string}`,
+    signTypedData: vi.fn().mockResolvedValue('0xsig' as `0x${string}`),
+  }
+  const client = new TrustClient({ account, fetch, paymentPolicy }, BASE)
+  return { client, fetch, account }
+}
+
+describe('TrustClient — paymentPolicy', () => {
+  it('pays when every rule allows it', async () => {
+    const { client, account } = setup({
+      maxAmountPerRequest: '1000',
+      allowedPayTo: ['0xpayto'],
+      allowedAssets: [USDC.toLowerCase()],
+      allowedNetworks: ['eip155:42220'],
+    })
+
+    await expect(client.getScore(42220, 5)).resolves.toEqual({ score: { value: 80 } })
+    expect(account.signTypedData).toHaveBeenCalledOnce()
+  })
+
+  it('refuses amounts above maxAmountPerRequest without signing', async () => {
+    const { client, fetch, account } = setup({ maxAmountPerRequest: BigInt(999) })
+
+    const error = await client.getScore(42220, 5).catch((e) => e)
+
+    expect(error).toBeInstanceOf(PaymentPolicyError)
+    expect(error.reason).toBe('max_amount')
+    expect(error.requirement.amount).toBe('1000')
+    expect(account.signTypedData).not.toHaveBeenCalled()
+    expect(fetch).toHaveBeenCalledOnce()
+  })
+
+  it.each([
+    ['payee', { allowedPayTo: ['0xSomeoneElse'] }],
+    ['asset', { allowedAssets: ['0xOtherToken'] }],
+    ['network', { allowedNetworks: ['eip155:1'] }],
+  ] as const)('refuses a disallowed %s', async (reason, policy) => {
+    const { client } = setup(policy)
+
+    await expect(client.getScore(42220, 5)).rejects.toMatchObject({ name: 'PaymentPolicyError', reason })
+  })
+
+  it('enforces the rolling budget across requests', async () => {
+    const { client, account } = setup({ budget: { perHour: '2500' } })
+
+    await client.getScore(42220, 5, { cache: false })
+    await client.getScore(42220, 6, { cache: false })
+    await expect(client.getScore(42220, 7)).rejects.toMatchObject({ reason: 'budget' })
+    expect(account.signTypedData).toHaveBeenCalledTimes(2)
+  })
+
+  it('returns the reservation when the paid request is refused', async () => {
+    const { client, fetch, account } = setup({ budget: { perHour: '1500' } })
+    fetch.mockImplementation(() => Promise.resolve(paymentRequired()))
+
+    await expect(client.getScore(42220, 5)).rejects.toMatchObject({ name: 'PaymentRequiredError' })
+    await expect(client.getScore(42220, 6)).rejects.toMatchObject({ name: 'PaymentRequiredError' })
+    expect(account.signTypedData).toHaveBeenCalledTimes(2)
+  })
+
+  it('lets beforeSign veto with context about the payment', async () => {
+    const beforeSign = vi.fn().mockReturnValue(false)
+    const { client, account } = setup({ beforeSign })
+
+    await expect(client.getScore(42220, 5)).rejects.toMatchObject({ reason: 'vetoed' })
+    expect(account.signTypedData).not.toHaveBeenCalled()
+    expect(beforeSign).toHaveBeenCalledWith({
+      requirement: expect.objectContaining({ amount: '1000' }),
+      resource: expect.objectContaining({ description: 'Trust score' }),
+      operation: expect.objectContaining({ method: 'getScore', chainId: 42220, agentId: 5 }),
+      spent: { hour: BigInt(0), day: BigInt(0) },
+    })
+  })
+
+  it('propagates errors thrown by beforeSign', async () => {
+    const { client } = setup({
+      beforeSign: async () => {
+        throw new Error('approval service down')
+      },
+    })
+
+    await expect(client.getScore(42220, 5)).rejects.toThrow('approval service down')
+  })
+})
+
+describe('PaymentPolicyGuard', () => {
+  const requirement = {
+    scheme: 'exact',
+    network: 'eip155:42220',
+    amount: '600',
+    asset: USDC,
+    payTo: '0xPayTo',
+    maxTimeoutSeconds: 30,
+    extra: { assetTransferMethod: 'eip3009', name: 'USD Coin', version: '2' },
+  }
+  const resource = { url: `${BASE}/x`, description: '', mimeType: 'application/json' }
+  const operation = { method: 'getScore', endpoint: '/agent/:chainId/:agentId/score' }
+
+  it('rolls hourly and daily windows forward', async () => {
+    let now = 0
+    const guard = new PaymentPolicyGuard({ budget: { perHour: '1000', perDay: '1500' } }, () => now)
+
+    await guard.authorize(requirement, resource, operation)
+    await expect(guard.authorize(requirement, resource, operation)).rejects.toMatchObject({ reason: 'budget' })
+
+    now = 60 * 60 * 1000
+    await guard.authorize(requirement, resource, operation)
+
+    now = 2 * 60 * 60 * 1000
+    await expect(guard.authorize(requirement, resource, operation)).rejects.toThrow('daily budget')
+
+    now = 24 * 60 * 60 * 1000
+    await guard.authorize(requirement, resource, operation)
+    expect(guard.spent(USDC)).toEqual({ hour: BigInt(600), day: BigInt(1200) })
+  })
+
+  it('tracks budgets per asset', async () => {
+    const guard = new PaymentPolicyGuard({ budget: { perHour: '600' } })
+
+    await guard.authorize(requirement, resource, operation)
+    await guard.authorize({ ...requirement, asset: '0xOtherToken' }, resource, operation)
+
+    expect(guard.spent(USDC.toUpperCase()).hour).toBe(BigInt(600))
+  })
+
+  it('release() returns a reservation to the budget', async () => {
+    const guard = new PaymentPolicyGuard({ budget: { perHour: '600' } })
+
+    const release = await guard.authorize(requirement, resource, operation)
+    release()
+
+    await expect(guard.authorize(requirement, resource, operation)).resolves.toBeTypeOf('function')
+  })
+})
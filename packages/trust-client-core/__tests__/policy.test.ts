@@ -0,0 +1,204 @@
+import { describe, it, expect, vi } from 'vitest'
+import { TrustClient, TrustPolicyError, evaluatePolicy, validatePolicy } from '../src'
+import type { Evaluation, Signal, TrustPolicy, TrustScore } from '../src'
+
+const BASE = 'https://test-oracle.example.com'
+const NOW = Date.UTC(2026, 9, 19, 12, 0, 0)
+
+const POLICY: TrustPolicy = {
+  version: 1,
+  name: 'counterparty',
+  rules: [
+    {
+      id: 'open-critical',
+      description: 'Any open critical signal',
+      when: { signals: { severity: 'critical', open: true } },
+      then: 'limit',
+    },
+    {
+      id: 'weak-score',
+      when: {
+        all: [
+          { fact: 'score.value', op: 'lt', value: 60 },
+          { fact: 'score.confidence', op: 'eq', value: 'low' },
+        ],
+      },
+      then: 'review',
+    },
+  ],
+  default: 'allow',
+}
+
+function score(value: number, confidence: TrustScore['confidence']): TrustScore {
+  return { value, confidence } as TrustScore
+}
+
+function signal(id: string, overrides: Partial<Signal> = {}): Signal {
+  return {
+    id,
+    signalKind: 'feedback_spike',
+    severity: 'critical',
+    title: 'Negative feedback spike',
+    description: '',
+    whyItMatters: '',
+    sourceTxHash: null,
+    triggeredAt: new Date(NOW - 86_400_000).toISOString(),
+    resolvedAt: null,
+    ...overrides,
+  }
+}
+
+function response(body: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    headers: new Headers(),
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  } as unknown as Response
+}
+
+describe('evaluatePolicy', () => {
+  it('falls back to the default when no rule fires', () => {
+    const decision = evaluatePolicy(POLICY, { score: score(82, 'high'), signals: [] }, NOW)
+
+    expect(decision).toEqual({
+      decision: 'allow',
+      decidedBy: null,
+      fired: [],
+      policy: { name: 'counterparty', version: 1 },
+    })
+  })
+
+  it('lets the first fired rule decide and lists every fired rule with its evidence', () => {
+    const signals = [signal('sig-1'), signal('sig-2', { resolvedAt: new Date(NOW).toISOString() })]
+    const decision = evaluatePolicy(POLICY, { score: score(41, 'low'), signals }, NOW)
+
+    expect(decision.decision).toBe('limit')
+    expect(decision.decidedBy).toBe('open-critical')
+    expect(decision.fired).toEqual([
+      {
+        id: 'open-critical',
+        description: 'Any open critical signal',
+        decision: 'limit',
+        evidence: { facts: {}, signals: ['sig-1'] },
+      },
+      {
+        id: 'weak-score',
+        decision: 'review',
+        evidence: { facts: { 'score.value': 41, 'score.confidence': 'low' }, signals: [] },
+      },
+    ])
+  })
+
+  it('supports any, not, counts, time windows and evaluation facts', () => {
+    const policy: TrustPolicy = {
+      version: 1,
+      name: 'escrow',
+      rules: [
+        {
+          id: 'repeated-warnings',
+          when: { signals: { severity: ['warning', 'critical'], withinDays: 7 }, count: { op: 'gte', value: 2 } },
+          then: 'review',
+        },
+        {
+          id: 'risky',
+          when: {
+            any: [
+              { fact: 'evaluation.risk_level', op: 'in', value: ['elevated', 'critical'] },
+              { fact: 'evaluation.flags', op: 'contains', value: 'anomalous_activity' },
+            ],
+          },
+          then: 'limit',
+        },
+        { id: 'unknown', when: { not: { fact: 'score', op: 'exists' } }, then: 'review' },
+      ],
+      default: 'allow',
+    }
+    const evaluation = { risk_level: 'moderate', flags: ['anomalous_activity'] } as Evaluation
+    const signals = [
+      signal('recent', { severity: 'warning' }),
+      signal('old', { severity: 'warning', triggeredAt: new Date(NOW - 30 * 86_400_000).toISOString() }),
+    ]
+
+    const decision = evaluatePolicy(policy, { evaluation, signals }, NOW)
+
+    expect(decision.fired.map((rule) => rule.id)).toEqual(['risky', 'unknown'])
+    expect(decision.decision).toBe('limit')
+    expect(decision.fired[0].evidence.facts).toEqual({
+      'evaluation.risk_level': 'moderate',
+      'evaluation.flags': ['anomalous_activity'],
+    })
+  })
+
+  it('survives a JSON round trip', () => {
+    const restored = validatePolicy(JSON.parse(JSON.stringify(POLICY)))
+    const input = { score: score(41, 'low'), signals: [] }
+
+    expect(evaluatePolicy(restored, input, NOW)).toEqual(evaluatePolicy(POLICY, input, NOW))
+  })
+})
+
+describe('validatePolicy', () => {
+  const invalid = (patch: Record<string, unknown>) => {
+    try {
+      validatePolicy({ ...POLICY, ...patch })
+    } catch (error) {
+      expect(error).toBeInstanceOf(TrustPolicyError)
+      return (error as TrustPolicyError).path
+    }
+    throw new Error('expected validatePolicy to throw')
+  }
+
+  it('returns a valid policy unchanged', () => {
+    expect(validatePolicy(POLICY)).toBe(POLICY)
+  })
+
+  it('names the path of the first problem', () => {
+    expect(invalid({ version: 2 })).toBe('version')
+    expect(invalid({ default: 'deny' })).toBe('default')
+    expect(invalid({ rules: [{ id: 'a', when: { fact: 'owner', op: 'eq', value: 1 }, then: 'allow' }] }))
+      .toBe('rules.0.when.fact')
+    expect(invalid({ rules: [{ id: 'a', when: { all: [{ fact: 'score.value', op: 'between' }] }, then: 'allow' }] }))
+      .toBe('rules.0.when.all.0.op')
+    expect(invalid({ rules: [{ id: 'a', when: { signals: {}, count: { op: 'gte' } }, then: 'allow' }] }))
+      .toBe('rules.0.when.count')
+    expect(invalid({ rules: [POLICY.rules[0], POLICY.rules[0]] })).toBe('rules.1.id')
+  })
+})
+
+describe('TrustClient.decide', () => {
+  it('fetches only the inputs the policy reads', async () => {
+    const fetch = vi.fn().mockImplementation((url: string) =>
+      Promise.resolve(url.includes('/signals')
+        ? response({ signals: [], count: 0 })
+        : response({ score: score(41, 'low'), formula: 'https://...' })),
+    )
+    const client = new TrustClient({ apiKey: 'test_key', fetch }, BASE)
+
+    const decision = await client.decide(42220, 5, POLICY)
+
+    expect(decision.decision).toBe('review')
+    expect(fetch.mock.calls.map(([url]) => url).sort()).toEqual([
+      `${BASE}/api/v1/agent/42220/5/score`,
+      `${BASE}/api/v1/agent/42220/5/signals?status=all`,
+    ])
+  })
+
+  it('evaluates with the policy preset', async () => {
+    const evaluation = { risk_level: 'critical', flags: [] } as unknown as Evaluation
+    const fetch = vi.fn().mockResolvedValue(response({ evaluation }))
+    const client = new TrustClient({ apiKey: 'test_key', fetch }, BASE)
+    const policy: TrustPolicy = {
+      version: 1,
+      name: 'payments',
+      evaluatePreset: 'defi_counterparty',
+      rules: [{ id: 'critical', when: { fact: 'evaluation.risk_level', op: 'eq', value: 'critical' }, then: 'limit' }],
+      default: 'allow',
+    }
+
+    await expect(client.decide(42220, 5, policy)).resolves.toMatchObject({ decision: 'limit', decidedBy: 'critical' })
+    expect(fetch).toHaveBeenCalledOnce()
+    expect(JSON.parse(fetch.mock.calls[0][1].body)).toMatchObject({ chainId: 42220, agentId: 5, preset: 'defi_counterparty' })
+  })
+})
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi } from 'vitest'
+import { PresetError, TrustClient } from '../src'
+import type { CustomPreset, Evaluation } from '../src'
+
+const BASE = 'https://test-oracle.example.com'
+
+const ESCROW: CustomPreset = {
+  base: 'defi_counterparty',
+  sensitivity: 'high',
+  objective: 'release escrowed funds',
+  context: 'escrow flow; {context}',
+  thresholds: [
+    { field: 'feedbackCount', min: 10, action: 'review', flag: 'thin_history' },
+    { field: 'openIncidents', max: 0, action: 'limit' },
+  ],
+}
+
+function evaluation(overrides: Partial<Evaluation['evidence']> = {}): Evaluation {
+  return {
+    trust_band: 'high',
+    status: 'active',
+    signal_strength: 'strong',
+    risk_level: 'minimal',
+    decision_confidence: 'high',
+    recommended_action: 'allow',
+    flags: [],
+    rationale: 'Consistent positive feedback.',
+    evidence: {
+      score: 84,
+      score_confidence: 'high',
+      feedbackCount: 40,
+      positiveRatio: 0.95,
+      openIncidents: 0,
+      lastActivityDays: 2,
+      ageDays: 300,
+      ...overrides,
+    },
+    preset: 'defi_counterparty',
+    evaluatedAt: '2026-10-19T12:00:00Z',
+    chainId: 42220,
+    agentId: 5,
+  }
+}
+
+function mockFetch(body: Evaluation) {
+  return vi.fn().mockImplementation(() =>
+    Promise.resolve({
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      json: () => Promise.resolve({ evaluation: body }),
+      text: () => Promise.resolve(JSON.stringify({ evaluation: body })),
+    } as unknown as Response),
+  )
+}
+
+describe('custom evaluation presets', () => {
+  it('maps to the server preset and fills in the preset fields', async () => {
+    const fetch = mockFetch(evaluation())
+    const client = new TrustClient({ apiKey: 'test_key', fetch, presets: { our_escrow_flow: ESCROW } }, BASE)
+
+    const { evaluation: result } = await client.evaluate(42220, 5, { preset: 'our_escrow_flow', context: 'order 991' })
+
+    expect(JSON.parse(fetch.mock.calls[0][1].body)).toEqual({
+      chainId: 42220,
+      agentId: 5,
+      preset: 'defi_counterparty',
+      context: 'escrow flow; order 991',
+      sensitivity: 'high',
+      objective: 'release escrowed funds',
+    })
+    expect(result).toMatchObject({
+      preset: 'our_escrow_flow',
+      basePreset: 'defi_counterparty',
+      recommended_action: 'allow',
+      breaches: [],
+    })
+  })
+
+  it('lets per-call options override the preset', async () => {
+    const fetch = mockFetch(evaluation())
+    const client = new TrustClient({ apiKey: 'test_key', fetch }, BASE)
+    client.registerPreset('our_escrow_flow', ESCROW)
+
+    await client.evaluate(42220, 5, { preset: 'our_escrow_flow', sensitivity: 'low', objective: 'refund' })
+
+    expect(JSON.parse(fetch.mock.calls[0][1].body)).toMatchObject({
+      context: 'escrow flow;',
+      sensitivity: 'low',
+      objective: 'refund',
+    })
+  })
+
+  it('tightens the recommendation to the strictest breached threshold', async () => {
+    const fetch = mockFetch(evaluation({ feedbackCount: 3, openIncidents: 1 }))
+    const client = new TrustClient({ apiKey: 'test_key', fetch, presets: { our_escrow_flow: ESCROW } }, BASE)
+
+    const { evaluation: result } = await client.evaluate(42220, 5, { preset: 'our_escrow_flow' })
+
+    expect(result.recommended_action).toBe('limit')
+    expect(result.flags).toEqual(['thin_history', 'openIncidents_out_of_range'])
+    expect(result.breaches).toEqual([
+      { field: 'feedbackCount', value: 3, min: 10, action: 'review', flag: 'thin_history' },
+      { field: 'openIncidents', value: 1, max: 0, action: 'limit', flag: 'openIncidents_out_of_range' },
+    ])
+    expect(result.rationale).toBe(
+      'Consistent positive feedback. Preset our_escrow_flow: feedbackCount 3 is below 10 (review); ' +
+        'openIncidents 1 is above 0 (limit).',
+    )
+  })
+
+  it('never loosens the server recommendation', async () => {
+    const fetch = mockFetch({ ...evaluation({ feedbackCount: 3 }), recommended_action: 'limit' })
+    const client = new TrustClient({ apiKey: 'test_key', fetch, presets: { our_escrow_flow: ESCROW } }, BASE)
+
+    const { evaluation: result } = await client.evaluate(42220, 5, { preset: 'our_escrow_flow' })
+    expect(result.recommended_action).toBe('limit')
+  })
+
+  it('shares cached server responses without leaking post-processing', async () => {
+    const fetch = mockFetch(evaluation({ feedbackCount: 3 }))
+    const client = new TrustClient({
+      apiKey: 'test_key',
+      fetch,
+      cache: {},
+      presets: { strict: { base: 'defi_counterparty', thresholds: [{ field: 'feedbackCount', min: 10, action: 'limit' }] } },
+    }, BASE)
+
+    const custom = await client.evaluate(42220, 5, { preset: 'strict' })
+    const plain = await client.evaluate(42220, 5, { preset: 'defi_counterparty' })
+
+    expect(fetch).toHaveBeenCalledOnce()
+    expect(custom.evaluation.recommended_action).toBe('limit')
+    expect(plain.evaluation.recommended_action).toBe('allow')
+    expect(plain.evaluation.breaches).toBeUndefined()
+  })
+
+  it('applies presets to evaluateMany results', async () => {
+    const fetch = mockFetch(evaluation({ feedbackCount: 3 }))
+    const client = new TrustClient({ apiKey: 'test_key', fetch, presets: { our_escrow_flow: ESCROW } }, BASE)
+
+    const results = await client.evaluateMany(
+      [{ chainId: 42220, agentId: 5 }, { chainId: 42220, agentId: 6 }],
+      { preset: 'our_escrow_flow' },
+    )
+
+    for (const item of results.values()) {
+      expect(item.status === 'fulfilled' && item.value.evaluation.recommended_action).toBe('review')
+    }
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('rejects malformed definitions', () => {
+    const client = new TrustClient({ apiKey: 'test_key', fetch: vi.fn() }, BASE)
+
+    expect(() => client.registerPreset('default_safety', ESCROW)).toThrow('server preset')
+    expect(() => client.registerPreset('x', { base: 'our_escrow_flow' as never })).toThrow('unknown base')
+    expect(() => client.registerPreset('x', { base: 'default_safety', thresholds: [{ field: 'feedbackCount', action: 'review' }] }))
+      .toThrow('needs min or max')
+
+    const error = (() => {
+      try {
+        client.registerPreset('x', { base: 'default_safety', thresholds: [{ field: 'reputation' as never, min: 1, action: 'review' }] })
+      } catch (e) {
+        return e
+      }
+    })()
+    expect(error).toBeInstanceOf(PresetError)
+    expect(error).toMatchObject({ preset: 'x', path: 'thresholds.0.field', status: 0 })
+  })
+})
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { TrustClient, MemoryPaymentLedger, spendByEndpoint } from '../src'
+
+const BASE = 'https://test-oracle.example.com'
+
+function response(status: number, body: unknown, headers?: Record<string, string>) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers ?? {}),
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  } as unknown as Response
+}
+
+function paymentRequiredBody(amount: string) {
+  return {
+    x402Version: 2,
+    accepts: [{
+      scheme: 'exact',
+      network: 'eip155:42220',
+      amount,
+      asset: '0xcebA9300f2b948710d2653dD7B07f33A8B32118C',
+      payTo: '0xPayTo',
+      maxTimeoutSeconds: 30,
+      extra: { assetTransferMethod: 'eip3009', name: 'USD Coin', version: '2' },
+    }],
+    resource: { url: `${BASE}/api/v1/agent/42220/5/score`, description: 'Trust score', mimeType: 'application/json' },
+    error: 'missing payment header',
+  }
+}
+
+/** Oracle that accepts any X-PAYMENT paying at least `price()` */
+function oracle(price: () => string) {
+  return vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+    const header = (init.headers as Record<string, string>)['X-PAYMENT']
+    const paid = header && JSON.parse(atob(header)).accepted.amount === price()
+    if (paid) return Promise.resolve(response(200, { score: { value: 80 } }))
+    const body = paymentRequiredBody(price())
+    return Promise.resolve(response(402, body, { 'payment-required': btoa(JSON.stringify(body)) }))
+  })
+}
+
+function makeAccount() {
+  return {
+    address: '0x1234567890abcdef1234567890abcdef12345678' as `0x${string}`,
+    signTypedData: vi.fn().mockResolvedValue('0xsig' as `0x${string}`),
+  }
+}
+
+describe('TrustClient — proactivePayment', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('is off by default', async () => {
+    const fetch = oracle(() => '1000')
+    const client = new TrustClient({ account: makeAccount(), fetch }, BASE)
+
+    await client.getScore(42220, 5)
+    await client.getScore(42220, 6)
+
+    expect(fetch).toHaveBeenCalledTimes(4)
+  })
+
+  it('pays up front on later calls to the same endpoint', async () => {
+    const fetch = oracle(() => '1000')
+    const account = makeAccount()
+    const client = new TrustClient({ account, fetch, proactivePayment: true }, BASE)
+
+    await client.getScore(42220, 5)
+    const { data, payment } = await client.withMeta().getScore(42220, 6)
+
+    expect(data).toEqual({ score: { value: 80 } })
+    expect(fetch).toHaveBeenCalledTimes(3)
+    expect(account.signTypedData).toHaveBeenCalledTimes(2)
+
+    const sent = JSON.parse(atob(fetch.mock.calls[2][1].headers['X-PAYMENT']))
+    expect(sent.resource.url).toBe(`${BASE}/api/v1/agent/42220/6/score`)
+    expect(payment?.requirement.amount).toBe('1000')
+  })
+
+  it('does not reuse a requirement across endpoints', async () => {
+    const fetch = oracle(() => '1000')
+    const client = new TrustClient({ account: makeAccount(), fetch, proactivePayment: true }, BASE)
+
+    await client.getScore(42220, 5)
+    await client.getSignals(42220, 5)
+
+    expect(fetch.mock.calls[2][1].headers['X-PAYMENT']).toBeUndefined()
+  })
+
+  it('falls back to the 402 flow when the price changed', async () => {
+    let price = '1000'
+    const fetch = oracle(() => price)
+    const ledger = new MemoryPaymentLedger()
+    const client = new TrustClient({
+      account: makeAccount(),
+      fetch,
+      ledger,
+      proactivePayment: true,
+      paymentPolicy: { budget: { perHour: '3500' } },
+    }, BASE)
+
+    await client.getScore(42220, 5)
+    price = '2000'
+    await expect(client.getScore(42220, 6)).resolves.toEqual({ score: { value: 80 } })
+
+    // First call: 402 + paid; second: rejected up-front payment + paid retry
+    expect(fetch).toHaveBeenCalledTimes(4)
+    expect(JSON.parse(atob(fetch.mock.calls[3][1].headers['X-PAYMENT'])).accepted.amount).toBe('2000')
+    // All three authorizations are audited, but the rejected one was refunded
+    // to the budget (3000 spent, within 3500) and is left out of spend reports
+    const entries = await ledger.entries()
+    expect(entries.map((e) => [e.amount, e.status])).toEqual([['1000', 'signed'], ['1000', 'failed'], ['2000', 'signed']])
+    expect(entries[1].receipt).toMatchObject({ success: false, errorReason: 'rejected' })
+    expect(spendByEndpoint(entries)).toEqual([expect.objectContaining({ amount: '3000', count: 2 })])
+  })
+
+  it('remembers the new price after a rejection', async () => {
+    let price = '1000'
+    const fetch = oracle(() => price)
+    const client = new TrustClient({ account: makeAccount(), fetch, proactivePayment: true }, BASE)
+
+    await client.getScore(42220, 5)
+    price = '2000'
+    await client.getScore(42220, 6)
+    await client.getScore(42220, 7)
+
+    expect(fetch).toHaveBeenCalledTimes(5)
+    await expect(fetch.mock.results[4].value).resolves.toMatchObject({ status: 200 })
+  })
+
+  it('re-learns the requirement after ttlMs', async () => {
+    vi.useFakeTimers()
+    const fetch = oracle(() => '1000')
+    const client = new TrustClient({ account: makeAccount(), fetch, proactivePayment: { ttlMs: 1000 } }, BASE)
+
+    await client.getScore(42220, 5)
+    vi.advanceTimersByTime(1001)
+    await client.getScore(42220, 6)
+
+    expect(fetch.mock.calls[2][1].headers['X-PAYMENT']).toBeUndefined()
+  })
+
+  it('still starts unpaid requests synchronously', () => {
+    const fetch = oracle(() => '1000')
+    const client = new TrustClient({ account: makeAccount(), fetch, proactivePayment: true }, BASE)
+
+    void client.getScore(42220, 5)
+
+    expect(fetch).toHaveBeenCalledOnce()
+  })
+})
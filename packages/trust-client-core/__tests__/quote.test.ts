@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from 'vitest'
+import { TrustClient, PaymentRequiredError } from '../src'
+import type { Middleware } from '../src'
+import { formatAmount } from '../src/quote'
+
+const BASE = 'https://test-oracle.example.com'
+const CELO_USDC = '0xcebA9300f2b948710d2653dD7B07f33A8B32118C'
+
+function response(status: number, body: unknown, headers?: Record<string, string>) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers ?? {}),
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  } as unknown as Response
+}
+
+const PAYMENT_REQUIRED = {
+  x402Version: 2,
+  accepts: [
+    {
+      scheme: 'exact',
+      network: 'solana:mainnet',
+      amount: '900',
+      asset: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+      payTo: 'SoPayTo',
+      maxTimeoutSeconds: 60,
+      extra: { assetTransferMethod: 'spl', name: 'USDC', version: '1', decimals: 6 },
+    },
+    {
+      scheme: 'exact',
+      network: 'eip155:42220',
+      amount: '1000',
+      asset: CELO_USDC,
+      payTo: '0xPayTo',
+      maxTimeoutSeconds: 30,
+      extra: { assetTransferMethod: 'eip3009', name: 'USD Coin', version: '2' },
+    },
+  ],
+  resource: { url: `${BASE}/api/v1/agent/42220/5/score`, description: 'Trust score', mimeType: 'application/json' },
+  error: 'missing payment header',
+}
+
+const paymentRequired = () =>
+  response(402, PAYMENT_REQUIRED, { 'payment-required': btoa(JSON.stringify(PAYMENT_REQUIRED)) })
+
+const account = {
+  address: '0x1234567890abcdef1234567890abcdef12345678' as `0x${string}`,
+  signTypedData: vi.fn().mockResolvedValue('0xsig' as `0x${string}`),
+}
+
+describe('formatAmount', () => {
+  it('scales atomic amounts by decimals', () => {
+    expect(formatAmount('1000', 6)).toBe('0.001')
+    expect(formatAmount('1500000', 6)).toBe('1.5')
+    expect(formatAmount('42', 0)).toBe('42')
+    expect(formatAmount('0', 6)).toBe('0')
+  })
+})
+
+describe('TrustClient.quote', () => {
+  it('prices a call from the 402 without signing or paying', async () => {
+    const fetch = vi.fn().mockResolvedValue(paymentRequired())
+    const client = new TrustClient({ account, fetch }, BASE)
+
+    const quote = await client.quote('getScore', [42220, 5])
+
+    expect(account.signTypedData).not.toHaveBeenCalled()
+    expect(fetch).toHaveBeenCalledOnce()
+    expect(fetch.mock.calls[0][1].headers).toEqual({})
+    expect(quote.paymentRequired).toBe(true)
+    expect(quote.resource?.description).toBe('Trust score')
+    expect(quote.options.map((o) => [o.network, o.amount, o.supported])).toEqual([
+      ['solana:mainnet', '0.0009', false],
+      ['eip155:42220', '0.001', true],
+    ])
+    expect(quote.selected).toMatchObject({
+      amount: '0.001',
+      atomicAmount: '1000',
+      decimals: 6,
+      asset: CELO_USDC,
+      assetName: 'USD Coin',
+      payTo: '0xPayTo',
+      maxTimeoutSeconds: 30,
+    })
+  })
+
+  it('sends API-key clients unauthenticated', async () => {
+    const fetch = vi.fn().mockResolvedValue(paymentRequired())
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+
+    const quote = await client.quote('getSignals', [42220, 5, { status: 'open' }])
+
+    expect(fetch.mock.calls[0][0]).toBe(`${BASE}/api/v1/agent/42220/5/signals?status=open`)
+    expect(fetch.mock.calls[0][1].headers.Authorization).toBeUndefined()
+    expect(quote.selected?.network).toBe('eip155:42220')
+  })
+
+  it('uses the client selectRequirement strategy', async () => {
+    const fetch = vi.fn().mockResolvedValue(paymentRequired())
+    const client = new TrustClient(
+      { account, fetch, selectRequirement: { networks: ['eip155:8453'] } },
+      BASE,
+    )
+
+    const quote = await client.quote('evaluate', [42220, 5, { preset: 'default_safety' }])
+
+    expect(quote.options).toHaveLength(2)
+    expect(quote.selected).toBeNull()
+  })
+
+  it('reports free endpoints', async () => {
+    const fetch = vi.fn().mockResolvedValue(response(200, { agent: { agentId: 5 } }))
+    const client = new TrustClient({ account, fetch }, BASE)
+
+    await expect(client.quote('getAgent', [42220, 5])).resolves.toEqual({
+      method: 'getAgent',
+      paymentRequired: false,
+      options: [],
+      selected: null,
+      resource: null,
+    })
+  })
+
+  it('bypasses the cache and in-flight requests', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(response(200, { score: { value: 80 } }))
+      .mockResolvedValueOnce(paymentRequired())
+    const client = new TrustClient({ apiKey: 'key', fetch, cache: {} }, BASE)
+
+    await client.getScore(42220, 5)
+    const quote = await client.quote('getScore', [42220, 5])
+
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect(quote.paymentRequired).toBe(true)
+  })
+
+  it('keeps user middleware and propagates other errors', async () => {
+    const onRequest = vi.fn()
+    const tracing: Middleware = { onRequest }
+    const fetch = vi.fn().mockResolvedValue(response(402, { error: 'no header' }))
+    const client = new TrustClient({ account, fetch, middleware: [tracing] }, BASE)
+
+    await expect(client.quote('search', [{ q: 'x' }])).rejects.toThrow(PaymentRequiredError)
+    expect(onRequest).toHaveBeenCalledOnce()
+  })
+})
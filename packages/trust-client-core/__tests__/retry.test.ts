@@ -0,0 +1,236 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { TrustClient, TrustClientError } from '../src'
+import { computeBackoff, parseRetryAfter, resolveRetryPolicy } from '../src/retry'
+
+const BASE = 'https://test-oracle.example.com'
+
+function response(status: number, body: unknown, headers?: Record<string, string>) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers ?? {}),
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  }
+}
+
+/** fetch mock that returns the given responses in order (last one repeats) */
+function sequenceFetch(...responses: Array<ReturnType<typeof response> | Error>) {
+  let i = 0
+  return vi.fn().mockImplementation(() => {
+    const next = responses[Math.min(i++, responses.length - 1)]
+    return next instanceof Error ? Promise.reject(next) : Promise.resolve(next)
+  })
+}
+
+const FAST = { baseDelayMs: 1, maxDelayMs: 50, jitter: false }
+
+describe('resolveRetryPolicy', () => {
+  it('is a single attempt when nothing is configured', () => {
+    expect(resolveRetryPolicy(undefined, undefined).maxAttempts).toBe(1)
+  })
+
+  it('fills defaults for an empty client config', () => {
+    const policy = resolveRetryPolicy({}, undefined)
+    expect(policy.maxAttempts).toBe(3)
+    expect(policy.retryOnStatus).toEqual([429, 502, 503, 504])
+  })
+
+  it('lets per-call options override client options', () => {
+    const policy = resolveRetryPolicy({ maxAttempts: 5, baseDelayMs: 10 }, { maxAttempts: 2 })
+    expect(policy.maxAttempts).toBe(2)
+    expect(policy.baseDelayMs).toBe(10)
+  })
+
+  it('per-call false disables retries', () => {
+    expect(resolveRetryPolicy({ maxAttempts: 5 }, false).maxAttempts).toBe(1)
+  })
+
+  it('per-call options enable retries when the client has none', () => {
+    expect(resolveRetryPolicy(undefined, { maxAttempts: 4 }).maxAttempts).toBe(4)
+  })
+})
+
+describe('parseRetryAfter', () => {
+  it('parses delta-seconds', () => {
+    expect(parseRetryAfter('2')).toBe(2000)
+  })
+
+  it('parses HTTP-date relative to now', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z')
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:05 GMT', now)).toBe(5000)
+  })
+
+  it('returns undefined for missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined()
+    expect(parseRetryAfter('soon')).toBeUndefined()
+  })
+})
+
+describe('computeBackoff', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('grows exponentially and caps at maxDelayMs', () => {
+    const policy = resolveRetryPolicy({ baseDelayMs: 100, maxDelayMs: 300, jitter: false }, undefined)
+    expect(computeBackoff(policy, 1)).toBe(100)
+    expect(computeBackoff(policy, 2)).toBe(200)
+    expect(computeBackoff(policy, 3)).toBe(300)
+  })
+
+  it('applies full jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5)
+    const policy = resolveRetryPolicy({ baseDelayMs: 100 }, undefined)
+    expect(computeBackoff(policy, 2)).toBe(100)
+  })
+})
+
+describe('TrustClient — retries', () => {
+  it('does not retry by default', async () => {
+    const fetch = sequenceFetch(response(503, { error: 'unavailable' }))
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+
+    const err = await client.getScore(42220, 5).catch((e) => e)
+    expect(err).toBeInstanceOf(TrustClientError)
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('retries 503 then succeeds', async () => {
+    const body = { score: { value: 72 } }
+    const fetch = sequenceFetch(response(503, {}), response(502, {}), response(200, body))
+    const client = new TrustClient({ apiKey: 'key', fetch, retry: FAST }, BASE)
+
+    await expect(client.getScore(42220, 5)).resolves.toEqual(body)
+    expect(fetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('gives up after maxAttempts and surfaces the last response', async () => {
+    const fetch = sequenceFetch(response(429, { error: 'Rate limit exceeded' }))
+    const client = new TrustClient({ apiKey: 'key', fetch, retry: { ...FAST, maxAttempts: 2 } }, BASE)
+
+    const err = await client.getAgent(42220, 5).catch((e) => e)
+    expect(err.status).toBe(429)
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not retry non-transient statuses', async () => {
+    const fetch = sequenceFetch(response(404, { error: 'Agent not found' }))
+    const client = new TrustClient({ apiKey: 'key', fetch, retry: FAST }, BASE)
+
+    await expect(client.getAgent(42220, 5)).rejects.toThrow(TrustClientError)
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('retries network errors', async () => {
+    const body = { agents: [], count: 0 }
+    const fetch = sequenceFetch(new TypeError('fetch failed'), response(200, body))
+    const client = new TrustClient({ apiKey: 'key', fetch, retry: FAST }, BASE)
+
+    await expect(client.search()).resolves.toEqual(body)
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('rethrows network errors when retryOnNetworkError is false', async () => {
+    const fetch = sequenceFetch(new TypeError('fetch failed'))
+    const client = new TrustClient(
+      { apiKey: 'key', fetch, retry: { ...FAST, retryOnNetworkError: false } },
+      BASE,
+    )
+
+    await expect(client.search()).rejects.toThrow('fetch failed')
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('waits for Retry-After before the next attempt', async () => {
+    vi.useFakeTimers()
+    const fetch = sequenceFetch(
+      response(429, {}, { 'Retry-After': '2' }),
+      response(200, { agents: [], count: 0 }),
+    )
+    const client = new TrustClient(
+      { apiKey: 'key', fetch, retry: { baseDelayMs: 1, maxDelayMs: 5000 } },
+      BASE,
+    )
+
+    const promise = client.search()
+    await vi.advanceTimersByTimeAsync(1999)
+    expect(fetch).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+    await promise
+    expect(fetch).toHaveBeenCalledTimes(2)
+
+    vi.useRealTimers()
+  })
+
+  it('surfaces the response when Retry-After exceeds maxDelayMs', async () => {
+    const fetch = sequenceFetch(response(429, {}, { 'Retry-After': '120' }))
+    const client = new TrustClient({ apiKey: 'key', fetch, retry: FAST }, BASE)
+
+    const err = await client.search().catch((e) => e)
+    expect(err.status).toBe(429)
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('honors per-call overrides', async () => {
+    const fetch = sequenceFetch(response(503, {}))
+    const client = new TrustClient({ apiKey: 'key', fetch, retry: FAST }, BASE)
+
+    await expect(client.getScore(42220, 5, { retry: false })).rejects.toThrow(TrustClientError)
+    expect(fetch).toHaveBeenCalledTimes(1)
+
+    fetch.mockClear()
+    await expect(
+      client.getSignals(42220, 5, { status: 'open', retry: { maxAttempts: 4 } }),
+    ).rejects.toThrow(TrustClientError)
+    expect(fetch).toHaveBeenCalledTimes(4)
+  })
+
+  it('does not retry after the caller aborts', async () => {
+    const controller = new AbortController()
+    const fetch = vi.fn().mockImplementation(() => {
+      controller.abort()
+      return Promise.reject(new DOMException('The operation was aborted.', 'AbortError'))
+    })
+    const client = new TrustClient(
+      { apiKey: 'key', fetch, signal: controller.signal, retry: FAST },
+      BASE,
+    )
+
+    await expect(client.search()).rejects.toThrow()
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('resends the same signed payment instead of re-signing', async () => {
+    const paymentRequired = {
+      x402Version: 2,
+      accepts: [{
+        scheme: 'exact',
+        network: 'eip155:42220',
+        amount: '1000',
+        asset: '0xcebA9300f2b948710d2653dD7B07f33A8B32118C',
+        payTo: '0xPayTo',
+        maxTimeoutSeconds: 30,
+        extra: { assetTransferMethod: 'eip3009', name: 'USD Coin', version: '2' },
+      }],
+      resource: { url: `${BASE}/api/v1/agent/42220/5/score`, description: 'Trust score', mimeType: 'application/json' },
+      error: 'missing payment header',
+    }
+    const fetch = sequenceFetch(
+      response(402, paymentRequired, { 'payment-required': btoa(JSON.stringify(paymentRequired)) }),
+      response(503, {}),
+      response(200, { score: { value: 80 } }),
+    )
+    const account = {
+      address: '0x1234567890abcdef1234567890abcdef12345678' as `0x${string}`,
+      signTypedData: vi.fn().mockResolvedValue('0xsig' as `0x${string}`),
+    }
+    const client = new TrustClient({ account, fetch, retry: FAST }, BASE)
+
+    await expect(client.getScore(42220, 5)).resolves.toEqual({ score: { value: 80 } })
+    expect(fetch).toHaveBeenCalledTimes(3)
+    expect(account.signTypedData).toHaveBeenCalledOnce()
+    const [, paid, retried] = fetch.mock.calls
+    expect(retried[1].headers['X-PAYMENT']).toBe(paid[1].headers['X-PAYMENT'])
+  })
+})
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { TrustClient, SchemaMismatchError, TrustClientError, schemas } from '../src'
+
+const BASE = 'https://test-oracle.example.com'
+
+function response(body: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    headers: new Headers(),
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  } as unknown as Response
+}
+
+const SCORE = {
+  score: {
+    value: 78,
+    confidence: 'high',
+    breakdown: {
+      positiveRatio: { value: 0.88, weight: 0.4 },
+      ageScore: { value: 0.9, weight: 0.2 },
+      activityScore: { value: 0.7, weight: 0.2 },
+      incidentPenalty: { value: 0, weight: 0.2 },
+    },
+    stats: { feedbackCount: 42, positiveCount: 37, negativeCount: 5, openIncidents: 0 },
+    updatedAt: '2026-03-29T18:30:00Z',
+  },
+  formula: 'weighted_sum_v1',
+}
+
+const EVALUATION = {
+  evaluation: {
+    trust_band: 'high',
+    status: 'active',
+    signal_strength: 'strong',
+    risk_level: 'minimal',
+    decision_confidence: 'high',
+    recommended_action: 'allow',
+    flags: [],
+    rationale: 'Agent scores 78/100.',
+    evidence: {
+      score: 78,
+      score_confidence: 'high',
+      feedbackCount: 42,
+      positiveRatio: 0.88,
+      openIncidents: 0,
+      lastActivityDays: 3,
+      ageDays: 120,
+    },
+    preset: 'default_safety',
+    evaluatedAt: '2026-03-29T18:30:00Z',
+    chainId: 42220,
+    agentId: 5,
+  },
+}
+
+describe('schemas', () => {
+  it('accepts valid payloads and extra fields', () => {
+    expect(schemas.ScoreResponse.parse(SCORE)).toBe(SCORE)
+    expect(schemas.EvaluateResponse.is({ ...EVALUATION, requestId: 'r1' })).toBe(true)
+    expect(schemas.SignalsResponse.check({ signals: [], count: 0 })).toBeNull()
+  })
+
+  it('reports a new enum value with its path', () => {
+    const payload = { evaluation: { ...EVALUATION.evaluation, trust_band: 'very_high' } }
+
+    expect(schemas.EvaluateResponse.check(payload)).toEqual({
+      path: 'evaluation.trust_band',
+      expected: '"high" | "medium" | "low" | "insufficient_signal"',
+      received: '"very_high"',
+    })
+  })
+
+  it('reports a missing nested key', () => {
+    const { ageScore: _, ...breakdown } = SCORE.score.breakdown
+    const payload = { ...SCORE, score: { ...SCORE.score, breakdown } }
+
+    expect(() => schemas.ScoreResponse.parse(payload)).toThrow(
+      expect.objectContaining({ name: 'SchemaMismatchError', path: 'score.breakdown.ageScore' }),
+    )
+  })
+
+  it('indexes array paths', () => {
+    const signal = {
+      id: 's1',
+      signalKind: 'incident',
+      severity: 'catastrophic',
+      title: 't',
+      description: 'd',
+      whyItMatters: 'w',
+      sourceTxHash: null,
+      triggeredAt: '2026-03-29T18:30:00Z',
+      resolvedAt: null,
+    }
+
+    expect(schemas.SignalsResponse.check({ signals: [signal], count: 1 })?.path).toBe('signals[0].severity')
+  })
+
+  it('distinguishes null from the expected type', () => {
+    const issue = schemas.AgentProfile.check({ chainId: null })
+
+    expect(issue).toEqual({ path: 'chainId', expected: 'number', received: 'null' })
+  })
+})
+
+describe('TrustClient — validate', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('does not validate by default', async () => {
+    const fetch = vi.fn().mockResolvedValue(response({ score: null }))
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+
+    await expect(client.getScore(42220, 5)).resolves.toEqual({ score: null })
+  })
+
+  it("'strict' throws SchemaMismatchError with the failing path", async () => {
+    const bad = { evaluation: { ...EVALUATION.evaluation, recommended_action: 'block' } }
+    const fetch = vi.fn().mockResolvedValue(response(bad))
+    const client = new TrustClient({ apiKey: 'key', fetch, validate: 'strict' }, BASE)
+
+    const error = await client.evaluate(42220, 5, { preset: 'default_safety' }).catch((e) => e)
+
+    expect(error).toBeInstanceOf(SchemaMismatchError)
+    expect(error).toBeInstanceOf(TrustClientError)
+    expect(error.path).toBe('evaluation.recommended_action')
+    expect(error.received).toBe('"block"')
+    expect(error.status).toBe(200)
+    expect(error.body).toEqual(bad)
+  })
+
+  it("'strict' passes valid responses through", async () => {
+    const fetch = vi.fn().mockResolvedValue(response(SCORE))
+    const client = new TrustClient({ apiKey: 'key', fetch, validate: 'strict' }, BASE)
+
+    await expect(client.getScore(42220, 5)).resolves.toEqual(SCORE)
+  })
+
+  it("'warn' logs the mismatch and returns the payload", async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const bad = { agents: 'none', count: 0 }
+    const fetch = vi.fn().mockResolvedValue(response(bad))
+    const client = new TrustClient({ apiKey: 'key', fetch, validate: 'warn' }, BASE)
+
+    await expect(client.search()).resolves.toEqual(bad)
+    expect(warn).toHaveBeenCalledOnce()
+    expect(warn.mock.calls[0][0]).toContain('search: Response does not match schema at agents')
+  })
+
+  it('does not cache responses that fail strict validation', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(response({ score: {} }))
+      .mockResolvedValueOnce(response(SCORE))
+    const client = new TrustClient({ apiKey: 'key', fetch, cache: {}, validate: 'strict' }, BASE)
+
+    await expect(client.getScore(42220, 5)).rejects.toThrow(SchemaMismatchError)
+    await expect(client.getScore(42220, 5)).resolves.toEqual(SCORE)
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  TrustClient,
+  PaymentRequiredError,
+  PaymentSchemeRegistry,
+  PERMIT2_ADDRESS,
+  isSupportedRequirement,
+  signPayment,
+} from '../src'
+import type { PaymentRequirement, PaymentScheme } from '../src'
+
+const BASE = 'https://test-oracle.example.com'
+const SPENDER = '0x4020615294c913F045dc10f0a5cdEbd86c280001'
+
+function requirement(overrides: Partial<PaymentRequirement> = {}): PaymentRequirement {
+  return {
+    scheme: 'exact',
+    network: 'eip155:8453',
+    amount: '2500',
+    asset: '0xTether',
+    payTo: '0xPayTo',
+    maxTimeoutSeconds: 60,
+    extra: { assetTransferMethod: 'permit2', name: 'Tether USD', version: '1', spender: SPENDER },
+    ...overrides,
+  }
+}
+
+const RESOURCE = { url: `${BASE}/api/v1/agent/42220/5/score`, description: 'Trust score', mimeType: 'application/json' }
+const NONCE = `0x${'00'.repeat(31)}2a` as `0x${string}`
+
+function makeAccount() {
+  return {
+    address: '0x1234567890abcdef1234567890abcdef12345678' as `0x${string}`,
+    signTypedData: vi.fn().mockResolvedValue('0xsig' as `0x${string}`),
+  }
+}
+
+describe('permit2 scheme', () => {
+  it('signs a PermitWitnessTransferFrom against the Permit2 contract', async () => {
+    const account = makeAccount()
+    const signed = await signPayment(
+      { account, clock: () => 1_000_000, nonceSource: () => NONCE },
+      requirement(),
+      RESOURCE,
+    )
+
+    const args = account.signTypedData.mock.calls[0][0]
+    expect(args.primaryType).toBe('PermitWitnessTransferFrom')
+    expect(args.domain).toEqual({ name: 'Permit2', chainId: 8453, verifyingContract: PERMIT2_ADDRESS })
+    expect(args.message).toEqual({
+      permitted: { token: '0xTether', amount: BigInt(2500) },
+      spender: SPENDER,
+      nonce: BigInt(42),
+      deadline: BigInt(1000 + 60),
+      witness: { to: '0xPayTo', validAfter: BigInt(0) },
+    })
+
+    const payload = JSON.parse(atob(signed.header)).payload
+    expect(payload.permit2Authorization).toMatchObject({ spender: SPENDER, nonce: '42', deadline: '1060' })
+    expect(signed.authorization).toMatchObject({ to: '0xPayTo', value: '2500', validBefore: '1060', nonce: NONCE })
+  })
+
+  it('requires a spender', () => {
+    const { spender: _spender, ...extra } = requirement().extra
+    expect(isSupportedRequirement(requirement())).toBe(true)
+    expect(isSupportedRequirement(requirement({ extra }))).toBe(false)
+  })
+})
+
+describe('PaymentSchemeRegistry', () => {
+  const eip2612: PaymentScheme = {
+    scheme: 'exact',
+    assetTransferMethod: 'eip2612',
+    sign: vi.fn().mockImplementation(async ({ account, requirement: r, nonce, validAfter, validBefore }) => ({
+      payload: { permit: 'signed' },
+      signature: '0xpermit',
+      authorization: {
+        from: account.address,
+        to: r.payTo,
+        value: r.amount,
+        validAfter: String(validAfter),
+        validBefore: String(validBefore),
+        nonce,
+      },
+    })),
+  }
+
+  it('names the registered schemes when none matches', () => {
+    const registry = new PaymentSchemeRegistry()
+    expect(() => registry.resolve(requirement({ extra: { ...requirement().extra, assetTransferMethod: 'eip2612' } })))
+      .toThrow('No payment scheme can sign exact/eip155:8453/eip2612 (registered: exact/eip3009, exact/permit2)')
+    expect(() => registry.resolve(requirement({ extra: { ...requirement().extra, assetTransferMethod: 'eip2612' } })))
+      .toThrow(PaymentRequiredError)
+  })
+
+  it('lets later registrations replace a key', () => {
+    const custom = { ...eip2612, assetTransferMethod: 'permit2' }
+    const registry = new PaymentSchemeRegistry().register(custom)
+    expect(registry.find(requirement({ extra: { ...requirement().extra, spender: undefined } }))).toBe(custom)
+  })
+
+  it('signs and pays with schemes from the config', async () => {
+    const accepts = [requirement({ extra: { assetTransferMethod: 'eip2612', name: 'Tether USD', version: '1' } })]
+    const paymentRequired = { x402Version: 2, accepts, resource: RESOURCE, error: 'missing payment header' }
+    const unpaid = () => ({
+      ok: false,
+      status: 402,
+      headers: new Headers({ 'payment-required': btoa(JSON.stringify(paymentRequired)) }),
+      json: () => Promise.resolve(paymentRequired),
+    })
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(unpaid())
+      .mockResolvedValueOnce({ ok: true, status: 200, headers: new Headers(), json: () => Promise.resolve({}) })
+
+    const plain = new TrustClient({ account: makeAccount(), fetch: vi.fn().mockResolvedValue(unpaid()) }, BASE)
+    await expect(plain.getScore(42220, 5)).rejects.toThrow('No supported payment method')
+
+    const client = new TrustClient({ account: makeAccount(), fetch, paymentSchemes: [eip2612] }, BASE)
+    const { payment } = await client.withMeta().getScore(42220, 5)
+
+    expect(eip2612.sign).toHaveBeenCalledOnce()
+    expect(JSON.parse(atob(fetch.mock.calls[1][1].headers['X-PAYMENT'])).payload).toEqual({ permit: 'signed' })
+    expect(payment?.signature).toBe('0xpermit')
+  })
+})
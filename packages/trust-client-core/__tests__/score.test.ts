@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import { recomputeScore, simulateScore, verifyScore } from '../src'
+import type { TrustScore } from '../src'
+
+const SCORE: TrustScore = {
+  value: 87,
+  confidence: 'high',
+  breakdown: {
+    positiveRatio: { value: 0.88, weight: 0.4 },
+    ageScore: { value: 0.9, weight: 0.2 },
+    activityScore: { value: 0.7, weight: 0.2 },
+    incidentPenalty: { value: 0, weight: 0.2 },
+  },
+  stats: { feedbackCount: 42, positiveCount: 37, negativeCount: 5, openIncidents: 0 },
+  updatedAt: '2026-10-19T12:00:00Z',
+}
+
+function withIncidents(openIncidents: number, penalty: number): TrustScore {
+  return {
+    ...SCORE,
+    breakdown: { ...SCORE.breakdown, incidentPenalty: { value: penalty, weight: 0.2 } },
+    stats: { ...SCORE.stats, openIncidents },
+  }
+}
+
+describe('verifyScore', () => {
+  it('accepts a score that follows from its breakdown and explains it', () => {
+    const result = verifyScore(SCORE)
+
+    expect(result).toMatchObject({ consistent: true, reported: 87, recomputed: 87.2, difference: -0.2, issues: [] })
+    expect(result.contributions).toEqual([
+      { component: 'positiveRatio', value: 0.88, weight: 0.4, points: 35.2, lost: 4.8 },
+      { component: 'ageScore', value: 0.9, weight: 0.2, points: 18, lost: 2 },
+      { component: 'activityScore', value: 0.7, weight: 0.2, points: 14, lost: 6 },
+      { component: 'incidentPenalty', value: 0, weight: 0.2, points: 20, lost: 0 },
+    ])
+  })
+
+  it('reports discrepancies beyond the tolerance', () => {
+    const result = verifyScore({ ...SCORE, value: 78 })
+
+    expect(result.consistent).toBe(false)
+    expect(result.difference).toBe(-9.2)
+    expect(result.issues).toEqual(['Score 78 differs from its breakdown (87.2) by 9.2 points'])
+    expect(verifyScore({ ...SCORE, value: 78 }, { tolerance: 10 }).consistent).toBe(true)
+  })
+
+  it('flags malformed breakdowns and stats mismatches', () => {
+    const result = verifyScore({
+      ...SCORE,
+      breakdown: {
+        ...SCORE.breakdown,
+        positiveRatio: { value: 0.5, weight: 0.4 },
+        ageScore: { value: 1.2, weight: 0.1 },
+      },
+    }, { tolerance: 100 })
+
+    expect(result.issues).toEqual([
+      'Breakdown weights sum to 0.9, not 1',
+      'ageScore value 1.2 is outside 0-1',
+      'positiveRatio 0.5 does not match stats (37/42 = 0.88)',
+    ])
+  })
+
+  it('recomputes with a custom formula', () => {
+    const subtractive = (b: TrustScore['breakdown']) =>
+      100 * (b.positiveRatio.value * 0.5 + b.ageScore.value * 0.25 + b.activityScore.value * 0.25 - b.incidentPenalty.value)
+
+    expect(recomputeScore(SCORE)).toBe(87.2)
+    expect(recomputeScore(SCORE, subtractive)).toBe(84)
+    expect(verifyScore({ ...SCORE, value: 84 }, { formula: subtractive }).difference).toBe(0)
+  })
+})
+
+describe('simulateScore', () => {
+  it('applies one more negative feedback through positiveRatio', () => {
+    const result = simulateScore(SCORE, { negativeFeedback: 1 })
+
+    expect(result).toMatchObject({ before: 87.2, after: 86.42, delta: -0.78 })
+    expect(result.stats).toMatchObject({ feedbackCount: 43, negativeCount: 6 })
+    expect(result.breakdown.positiveRatio.value).toBeCloseTo(37 / 43)
+    expect(result.assumptions).toEqual(['ageScore and activityScore are kept as reported'])
+  })
+
+  it('scales the incident penalty with open incidents', () => {
+    const score = withIncidents(2, 0.5)
+
+    const one = simulateScore(score, { resolvedIncidents: 1 })
+    expect(one).toMatchObject({ before: 77.2, after: 82.2, delta: 5 })
+    expect(one.assumptions).toEqual(['incidentPenalty grows by 0.25 per open incident'])
+
+    const all = simulateScore(score, { resolvedIncidents: 5 })
+    expect(all.stats.openIncidents).toBe(0)
+    expect(all.after).toBe(87.2)
+  })
+
+  it('needs penaltyPerIncident to model a first incident', () => {
+    const guessed = simulateScore(SCORE, { newIncidents: 1 })
+    expect(guessed.delta).toBe(0)
+    expect(guessed.assumptions[0]).toContain('set penaltyPerIncident')
+
+    expect(simulateScore(SCORE, { newIncidents: 1 }, { penaltyPerIncident: 0.3 }).after).toBe(81.2)
+  })
+
+  it('sets breakdown values directly without touching the input', () => {
+    const result = simulateScore(SCORE, { breakdown: { activityScore: 1 } })
+
+    expect(result.after).toBe(93.2)
+    expect(SCORE.breakdown.activityScore.value).toBe(0.7)
+  })
+})
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest'
+import { TrustClient, PaymentRequiredError, isSupportedRequirement } from '../src'
+import type { PaymentRequirement, RequirementStrategy } from '../src'
+import { selectRequirement } from '../src/selection'
+
+const BASE = 'https://test-oracle.example.com'
+const CELO_USDC = '0xcebA9300f2b948710d2653dD7B07f33A8B32118C'
+const BASE_USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913'
+
+function requirement(overrides: Partial<PaymentRequirement> = {}): PaymentRequirement {
+  return {
+    scheme: 'exact',
+    network: 'eip155:42220',
+    amount: '1000',
+    asset: CELO_USDC,
+    payTo: '0xPayTo',
+    maxTimeoutSeconds: 30,
+    extra: { assetTransferMethod: 'eip3009', name: 'USD Coin', version: '2' },
+    ...overrides,
+  }
+}
+
+const BASE_OPTION = requirement({ network: 'eip155:8453', asset: BASE_USDC, amount: '500' })
+const CELO_OPTION = requirement({ amount: '1000' })
+const CELO_CHEAP = requirement({ amount: '800', asset: '0xOtherStable' })
+const SOLANA_OPTION = requirement({ network: 'solana:mainnet', amount: '1' })
+const PERMIT2_OPTION = requirement({
+  amount: '1',
+  extra: { assetTransferMethod: 'permit2', name: 'USD Coin', version: '2' },
+})
+
+function body(accepts: PaymentRequirement[]) {
+  return {
+    x402Version: 2,
+    accepts,
+    resource: { url: `${BASE}/api/v1/agent/42220/5/score`, description: 'Trust score', mimeType: 'application/json' },
+    error: 'missing payment header',
+  }
+}
+
+const operation = { method: 'getScore', endpoint: '/agent/:chainId/:agentId/score', chainId: 42220, agentId: 5 }
+
+function select(accepts: PaymentRequirement[], strategy?: RequirementStrategy) {
+  return selectRequirement(body(accepts), strategy, operation)
+}
+
+describe('isSupportedRequirement', () => {
+  it('accepts exact EIP-3009 payments on eip155 networks', () => {
+    expect(isSupportedRequirement(CELO_OPTION)).toBe(true)
+    expect(isSupportedRequirement(SOLANA_OPTION)).toBe(false)
+    expect(isSupportedRequirement(PERMIT2_OPTION)).toBe(false)
+    expect(isSupportedRequirement(requirement({ scheme: 'upto' }))).toBe(false)
+  })
+})
+
+describe('selectRequirement', () => {
+  it("defaults to the first supported entry, skipping ones it can't sign", async () => {
+    await expect(select([SOLANA_OPTION, PERMIT2_OPTION, CELO_OPTION, BASE_OPTION])).resolves.toBe(CELO_OPTION)
+  })
+
+  it("'cheapest' picks the lowest amount", async () => {
+    await expect(select([CELO_OPTION, BASE_OPTION, CELO_CHEAP], 'cheapest')).resolves.toBe(BASE_OPTION)
+  })
+
+  it('networks restricts to networks the account can sign for', async () => {
+    await expect(
+      select([BASE_OPTION, CELO_OPTION, CELO_CHEAP], { networks: ['eip155:42220'], prefer: 'cheapest' }),
+    ).resolves.toBe(CELO_CHEAP)
+  })
+
+  it('preferredNetworks and preferredAssets order the candidates', async () => {
+    await expect(select([BASE_OPTION, CELO_CHEAP, CELO_OPTION], { preferredNetworks: ['eip155:42220'] }))
+      .resolves.toBe(CELO_CHEAP)
+    await expect(
+      select([BASE_OPTION, CELO_CHEAP, CELO_OPTION], {
+        preferredNetworks: ['eip155:42220'],
+        preferredAssets: [CELO_USDC.toLowerCase()],
+      }),
+    ).resolves.toBe(CELO_OPTION)
+  })
+
+  it('a custom function sees only supported candidates and the request context', async () => {
+    const custom = vi.fn((candidates: PaymentRequirement[]) => candidates[candidates.length - 1])
+
+    await expect(select([SOLANA_OPTION, CELO_OPTION, BASE_OPTION], custom)).resolves.toBe(BASE_OPTION)
+    expect(custom).toHaveBeenCalledWith([CELO_OPTION, BASE_OPTION], {
+      resource: expect.objectContaining({ description: 'Trust score' }),
+      operation,
+    })
+  })
+
+  it('throws PaymentRequiredError when nothing can be paid', async () => {
+    await expect(select([SOLANA_OPTION, PERMIT2_OPTION])).rejects.toThrow(
+      'No supported payment method among: exact/solana:mainnet/eip3009, exact/eip155:42220/permit2',
+    )
+    await expect(select([BASE_OPTION], { networks: ['eip155:42220'] })).rejects.toThrow(PaymentRequiredError)
+    await expect(select([CELO_OPTION], () => undefined)).rejects.toThrow('No payment method matches')
+  })
+})
+
+describe('TrustClient — selectRequirement', () => {
+  it('signs the selected requirement', async () => {
+    const paymentRequired = body([BASE_OPTION, CELO_OPTION])
+    const fetch = vi.fn()
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 402,
+        headers: new Headers({ 'payment-required': btoa(JSON.stringify(paymentRequired)) }),
+        json: () => Promise.resolve(paymentRequired),
+        text: () => Promise.resolve(''),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: () => Promise.resolve({ score: { value: 80 } }),
+        text: () => Promise.resolve(''),
+      })
+    const account = {
+      address: '0x1234567890abcdef1234567890abcdef12345678' as `0x${string}`,
+      signTypedData: vi.fn().mockResolvedValue('0xsig' as `0x${string}`),
+    }
+    const client = new TrustClient(
+      { account, fetch, selectRequirement: { networks: ['eip155:42220'] } },
+      BASE,
+    )
+
+    await client.getScore(42220, 5)
+
+    expect(account.signTypedData.mock.calls[0][0].domain.chainId).toBe(42220)
+    const payment = JSON.parse(atob(fetch.mock.calls[1][1].headers['X-PAYMENT']))
+    expect(payment.accepted).toEqual(CELO_OPTION)
+  })
+})
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest'
+import { privateKeyToAccount } from 'viem/accounts'
+import {
+  createPaymentRequired,
+  decodePaymentRequired,
+  decodePaymentResponse,
+  encodePaymentResponse,
+  paymentRequiredResponse,
+  verifyPayment,
+  signPayment,
+  MemoryNonceStore,
+  PaymentVerificationError,
+} from '../src'
+import type { PaymentRequirement, PaymentVerificationFailure } from '../src'
+
+const NOW = Date.UTC(2026, 9, 19, 18, 0, 0)
+const clock = () => NOW
+
+const payer = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d')
+
+const REQUIREMENT: PaymentRequirement = {
+  scheme: 'exact',
+  network: 'eip155:42220',
+  amount: '1000',
+  asset: '0xcebA9300f2b948710d2653dD7B07f33A8B32118C',
+  payTo: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+  maxTimeoutSeconds: 60,
+  extra: { assetTransferMethod: 'eip3009', name: 'USD Coin', version: '2' },
+}
+
+const RESOURCE = { url: 'https://agent.example/api/quote', description: 'Swap quote', mimeType: 'application/json' }
+
+async function pay(requirement: Partial<PaymentRequirement> = {}, at: number = NOW) {
+  const signed = await signPayment({ account: payer, clock: () => at }, { ...REQUIREMENT, ...requirement }, RESOURCE)
+  return signed.header
+}
+
+async function failure(promise: Promise<unknown>): Promise<PaymentVerificationFailure | undefined> {
+  try {
+    await promise
+  } catch (error) {
+    if (error instanceof PaymentVerificationError) return error.reason
+    throw error
+  }
+  return undefined
+}
+
+describe('PAYMENT-REQUIRED helpers', () => {
+  it('round-trips through the client decoders', async () => {
+    const body = createPaymentRequired(REQUIREMENT, RESOURCE)
+    const response = paymentRequiredResponse(body)
+
+    expect(response.status).toBe(402)
+    expect(decodePaymentRequired(response)).toEqual(body)
+    expect(await response.json()).toEqual(body)
+
+    const receipt = { success: true, transaction: '0xtx', network: 'eip155:42220' }
+    const paid = new Response('{}', { headers: { 'PAYMENT-RESPONSE': encodePaymentResponse(receipt) } })
+    expect(decodePaymentResponse(paid)).toEqual(receipt)
+  })
+})
+
+describe('verifyPayment', () => {
+  it('accepts a payment signed by the SDK client', async () => {
+    const verified = await verifyPayment(await pay(), REQUIREMENT, { nonceStore: new MemoryNonceStore(clock), clock })
+
+    expect(verified.payer).toBe(payer.address)
+    expect(verified.requirement).toBe(REQUIREMENT)
+    expect(verified.authorization).toMatchObject({ value: '1000', to: REQUIREMENT.payTo })
+    expect(verified.payload.resource).toEqual(RESOURCE)
+  })
+
+  it('picks the matching requirement among several', async () => {
+    const base = { ...REQUIREMENT, network: 'eip155:8453', asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' }
+    const header = await pay({ network: base.network, asset: base.asset })
+
+    const verified = await verifyPayment(header, [REQUIREMENT, base], { nonceStore: new MemoryNonceStore(), clock })
+    expect(verified.requirement).toBe(base)
+  })
+
+  it('rejects replayed nonces', async () => {
+    const nonceStore = new MemoryNonceStore(clock)
+    const header = await pay()
+
+    await verifyPayment(header, REQUIREMENT, { nonceStore, clock })
+    expect(await failure(verifyPayment(header, REQUIREMENT, { nonceStore, clock }))).toBe('replayed')
+  })
+
+  it('names the failed check', async () => {
+    const options = { nonceStore: new MemoryNonceStore(), clock }
+    const check = async (header: string | null, requirement: PaymentRequirement = REQUIREMENT) =>
+      failure(verifyPayment(header, requirement, options))
+
+    expect(await check(null)).toBe('missing')
+    expect(await check('not base64 json')).toBe('malformed')
+    expect(await check(await pay({ network: 'eip155:8453' }))).toBe('requirement_mismatch')
+    expect(await check(await pay({ payTo: '0x0000000000000000000000000000000000000001' }))).toBe('payee_mismatch')
+    expect(await check(await pay({ amount: '999' }))).toBe('amount_mismatch')
+    expect(await check(await pay({}, NOW - 120_000))).toBe('expired')
+    expect(await check(await pay({ maxTimeoutSeconds: 3600 }))).toBe('window_too_long')
+    expect(await check(await pay(), { ...REQUIREMENT, extra: { ...REQUIREMENT.extra, name: 'Fake USD' } }))
+      .toBe('invalid_signature')
+    expect(
+      await check(await pay(), { ...REQUIREMENT, extra: { ...REQUIREMENT.extra, assetTransferMethod: 'permit2' } }),
+    ).toBe('unsupported_scheme')
+  })
+
+  it('detects tampered authorizations', async () => {
+    const decoded = JSON.parse(atob(await pay()))
+    decoded.payload.authorization.from = '0x0000000000000000000000000000000000000002'
+    const header = btoa(JSON.stringify(decoded))
+
+    const reason = await failure(verifyPayment(header, REQUIREMENT, { nonceStore: new MemoryNonceStore(), clock }))
+    expect(reason).toBe('invalid_signature')
+  })
+
+  it('holds the nonce through the expiry tolerance', async () => {
+    let now = NOW
+    const tick = () => now
+    const nonceStore = new MemoryNonceStore(tick)
+    const header = await pay()
+    const validBefore = JSON.parse(atob(header)).payload.authorization.validBefore
+
+    await verifyPayment(header, REQUIREMENT, { nonceStore, clock: tick })
+    // Past validBefore but inside the default 5s tolerance, so still not expired
+    now = (Number(validBefore) + 2) * 1000
+    expect(await failure(verifyPayment(header, REQUIREMENT, { nonceStore, clock: tick }))).toBe('replayed')
+  })
+
+  it('does not burn the nonce of a rejected payment', async () => {
+    const nonceStore = new MemoryNonceStore(clock)
+    const header = await pay()
+
+    const later = () => NOW + 3_600_000
+    expect(await failure(verifyPayment(header, REQUIREMENT, { nonceStore, clock: later }))).toBe('expired')
+    await expect(verifyPayment(header, REQUIREMENT, { nonceStore, clock })).resolves.toBeDefined()
+  })
+})
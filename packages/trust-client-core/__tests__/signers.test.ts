@@ -0,0 +1,186 @@
+import { describe, it, expect, vi } from 'vitest'
+import { privateKeyToAccount } from 'viem/accounts'
+import { recoverTypedDataAddress } from 'viem'
+import {
+  TrustClient,
+  MemoryPaymentLedger,
+  SignerError,
+  callbackSigner,
+  httpSigner,
+  eip1193Signer,
+  toTypedDataJson,
+  EIP3009_TYPES,
+} from '../src'
+import type { Eip1193Provider, TypedDataRequest } from '../src'
+
+const BASE = 'https://test-oracle.example.com'
+const key = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d')
+const SIGNATURE = `0x${'11'.repeat(65)}` as `0x${string}`
+
+const REQUEST: TypedDataRequest = {
+  domain: {
+    name: 'USD Coin',
+    version: '2',
+    chainId: 42220,
+    verifyingContract: '0xcebA9300f2b948710d2653dD7B07f33A8B32118C',
+  },
+  types: EIP3009_TYPES,
+  primaryType: 'TransferWithAuthorization',
+  message: {
+    from: key.address,
+    to: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+    value: BigInt(1000),
+    validAfter: BigInt(0),
+    validBefore: BigInt(1_800_000_000),
+    nonce: `0x${'ab'.repeat(32)}`,
+  },
+}
+
+function response(status: number, body: unknown) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(),
+    json: () => Promise.resolve(body),
+  } as unknown as Response
+}
+
+async function reason(promise: Promise<unknown>) {
+  const error = await promise.catch((e: unknown) => e)
+  expect(error).toBeInstanceOf(SignerError)
+  return (error as SignerError).reason
+}
+
+describe('toTypedDataJson', () => {
+  it('produces eth_signTypedData_v4 JSON', () => {
+    const json = toTypedDataJson(REQUEST)
+
+    expect(json.types.EIP712Domain).toEqual([
+      { name: 'name', type: 'string' },
+      { name: 'version', type: 'string' },
+      { name: 'chainId', type: 'uint256' },
+      { name: 'verifyingContract', type: 'address' },
+    ])
+    expect(json.message.value).toBe('1000')
+    expect(() => JSON.stringify(json)).not.toThrow()
+  })
+})
+
+describe('callbackSigner', () => {
+  it('signs through the callback after approval', async () => {
+    const approve = vi.fn().mockReturnValue(true)
+    const account = callbackSigner(key.address, (request) => key.signTypedData(request as never), { approve })
+
+    const signature = await account.signTypedData(REQUEST)
+
+    expect(approve).toHaveBeenCalledWith(expect.objectContaining({ address: key.address, primaryType: 'TransferWithAuthorization' }))
+    await expect(recoverTypedDataAddress({ ...REQUEST, signature } as never)).resolves.toBe(key.address)
+  })
+
+  it('maps refusals and failures', async () => {
+    const sign = vi.fn().mockResolvedValue(SIGNATURE)
+    expect(await reason(callbackSigner(key.address, sign, { approve: () => false }).signTypedData(REQUEST))).toBe('rejected')
+    expect(sign).not.toHaveBeenCalled()
+
+    const down = callbackSigner(key.address, () => Promise.reject(new Error('KMS throttled')))
+    expect(await reason(down.signTypedData(REQUEST))).toBe('unavailable')
+
+    const garbage = callbackSigner(key.address, () => Promise.resolve('0x1234'))
+    expect(await reason(garbage.signTypedData(REQUEST))).toBe('invalid_response')
+  })
+})
+
+describe('httpSigner', () => {
+  it('posts the typed data and returns the signature', async () => {
+    const fetch = vi.fn().mockResolvedValue(response(200, { signature: SIGNATURE }))
+    const account = httpSigner({ url: 'https://signer.internal/sign', address: key.address, headers: { 'X-Service': 'agent' }, fetch })
+
+    await expect(account.signTypedData(REQUEST)).resolves.toBe(SIGNATURE)
+
+    const [url, init] = fetch.mock.calls[0]
+    expect(url).toBe('https://signer.internal/sign')
+    expect(init.headers).toEqual({ 'Content-Type': 'application/json', 'X-Service': 'agent' })
+    expect(JSON.parse(init.body)).toEqual({ address: key.address, typedData: toTypedDataJson(REQUEST) })
+  })
+
+  it('maps HTTP failures', async () => {
+    const signer = (fetch: ReturnType<typeof vi.fn>) =>
+      httpSigner({ url: 'https://signer.internal/sign', address: key.address, fetch })
+
+    const refused = signer(vi.fn().mockResolvedValue(response(403, { reason: 'daily limit reached' })))
+    await expect(refused.signTypedData(REQUEST)).rejects.toThrow('Signer refused: daily limit reached')
+    expect(await reason(refused.signTypedData(REQUEST))).toBe('rejected')
+
+    expect(await reason(signer(vi.fn().mockResolvedValue(response(503, {}))).signTypedData(REQUEST))).toBe('unavailable')
+    expect(await reason(signer(vi.fn().mockRejectedValue(new TypeError('fetch failed'))).signTypedData(REQUEST)))
+      .toBe('unavailable')
+    expect(await reason(signer(vi.fn().mockResolvedValue(response(200, {}))).signTypedData(REQUEST)))
+      .toBe('invalid_response')
+  })
+
+  it('times out slow signers', async () => {
+    const fetch = vi.fn().mockImplementation((_url: string, init: RequestInit) =>
+      new Promise((_resolve, rejectFetch) => {
+        init.signal?.addEventListener('abort', () => rejectFetch(new Error('aborted')))
+      }),
+    )
+    const account = httpSigner({ url: 'https://signer.internal/sign', address: key.address, fetch, timeoutMs: 10 })
+
+    await expect(account.signTypedData(REQUEST)).rejects.toThrow('timed out after 10ms')
+  })
+})
+
+describe('eip1193Signer', () => {
+  it('calls eth_signTypedData_v4 with the JSON payload', async () => {
+    const provider: Eip1193Provider = { request: vi.fn().mockResolvedValue(SIGNATURE) }
+
+    await expect(eip1193Signer(provider, key.address).signTypedData(REQUEST)).resolves.toBe(SIGNATURE)
+    expect(provider.request).toHaveBeenCalledWith({
+      method: 'eth_signTypedData_v4',
+      params: [key.address, JSON.stringify(toTypedDataJson(REQUEST))],
+    })
+  })
+
+  it('maps provider error codes', async () => {
+    const failing = (error: unknown) => eip1193Signer({ request: vi.fn().mockRejectedValue(error) }, key.address)
+
+    expect(await reason(failing(Object.assign(new Error('User rejected'), { code: 4001 })).signTypedData(REQUEST)))
+      .toBe('rejected')
+    expect(await reason(failing(Object.assign(new Error('Unauthorized'), { code: 4100 })).signTypedData(REQUEST)))
+      .toBe('rejected')
+    expect(await reason(failing(Object.assign(new Error('Internal'), { code: -32603 })).signTypedData(REQUEST)))
+      .toBe('unavailable')
+  })
+})
+
+describe('signer adapters in the x402 flow', () => {
+  it('surfaces refusals as SignerError without sending a payment', async () => {
+    const paymentRequired = {
+      x402Version: 2,
+      accepts: [{
+        scheme: 'exact',
+        network: 'eip155:42220',
+        amount: '1000',
+        asset: '0xcebA9300f2b948710d2653dD7B07f33A8B32118C',
+        payTo: '0xPayTo',
+        maxTimeoutSeconds: 30,
+        extra: { assetTransferMethod: 'eip3009', name: 'USD Coin', version: '2' },
+      }],
+      resource: { url: `${BASE}/api/v1/agent/42220/5/score`, description: 'Trust score', mimeType: 'application/json' },
+      error: 'missing payment header',
+    }
+    const fetch = vi.fn().mockResolvedValue({
+      ...response(402, paymentRequired),
+      headers: new Headers({ 'payment-required': btoa(JSON.stringify(paymentRequired)) }),
+    })
+    const ledger = new MemoryPaymentLedger()
+    const account = callbackSigner(key.address, vi.fn(), {
+      approve: ({ message }) => BigInt(message.value as bigint) <= BigInt(500),
+    })
+    const client = new TrustClient({ account, fetch, ledger }, BASE)
+
+    await expect(client.getScore(42220, 5)).rejects.toThrow(SignerError)
+    expect(fetch).toHaveBeenCalledOnce()
+    expect(await ledger.entries()).toEqual([])
+  })
+})
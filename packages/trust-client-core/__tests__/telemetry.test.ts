@@ -0,0 +1,156 @@
+import { describe, it, expect, vi } from 'vitest'
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api'
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base'
+import { MeterProvider, MetricReader } from '@opentelemetry/sdk-metrics'
+import { TrustClient, NotFoundError } from '../src'
+
+const BASE = 'https://test-oracle.example.com'
+
+function response(status: number, body: unknown, headers?: Record<string, string>) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers ?? {}),
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  } as unknown as Response
+}
+
+const PAYMENT_REQUIRED = {
+  x402Version: 2,
+  accepts: [{
+    scheme: 'exact',
+    network: 'eip155:42220',
+    amount: '1000',
+    asset: '0xcebA9300f2b948710d2653dD7B07f33A8B32118C',
+    payTo: '0xPayTo',
+    maxTimeoutSeconds: 30,
+    extra: { assetTransferMethod: 'eip3009', name: 'USD Coin', version: '2' },
+  }],
+  resource: { url: `${BASE}/api/v1/agent/42220/5/score`, description: 'Trust score', mimeType: 'application/json' },
+  error: 'missing payment header',
+}
+
+class TestMetricReader extends MetricReader {
+  protected async onShutdown() {}
+  protected async onForceFlush() {}
+}
+
+function setup() {
+  const exporter = new InMemorySpanExporter()
+  const tracer = new BasicTracerProvider({
+    spanProcessors: [new SimpleSpanProcessor(exporter)],
+  }).getTracer('test')
+  const reader = new TestMetricReader()
+  const meter = new MeterProvider({ readers: [reader] }).getMeter('test')
+
+  async function metric(name: string) {
+    const { resourceMetrics } = await reader.collect()
+    const metrics = resourceMetrics.scopeMetrics.flatMap((scope) => scope.metrics)
+    return metrics.find((m) => m.descriptor.name === name)?.dataPoints ?? []
+  }
+
+  return { exporter, tracer, meter, metric }
+}
+
+describe('TrustClient — telemetry', () => {
+  it('emits one client span per request with operation attributes', async () => {
+    const { exporter, tracer } = setup()
+    const fetch = vi.fn().mockResolvedValue(response(200, { score: { value: 80 } }))
+    const client = new TrustClient({ apiKey: 'key', fetch, telemetry: { tracer } }, BASE)
+
+    await client.getScore(42220, 5)
+
+    const [span] = exporter.getFinishedSpans()
+    expect(exporter.getFinishedSpans()).toHaveLength(1)
+    expect(span.name).toBe('trust.getScore')
+    expect(span.kind).toBe(SpanKind.CLIENT)
+    expect(span.attributes).toMatchObject({
+      'trust.method': 'getScore',
+      'trust.endpoint': '/agent/:chainId/:agentId/score',
+      'trust.chain_id': 42220,
+      'trust.agent_id': 5,
+      'http.request.method': 'GET',
+      'http.response.status_code': 200,
+      'trust.payment.made': false,
+    })
+    expect(span.status.code).toBe(SpanStatusCode.UNSET)
+  })
+
+  it('records payment attributes when x402 pays', async () => {
+    const { exporter, tracer, meter, metric } = setup()
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(
+        response(402, PAYMENT_REQUIRED, { 'payment-required': btoa(JSON.stringify(PAYMENT_REQUIRED)) }),
+      )
+      .mockResolvedValueOnce(response(200, { score: { value: 80 } }))
+    const account = {
+      address: '0x1234567890abcdef1234567890abcdef12345678' as `0x${string}`,
+      signTypedData: vi.fn().mockResolvedValue('0xsig' as `0x${string}`),
+    }
+    const client = new TrustClient({ account, fetch, telemetry: { tracer, meter } }, BASE)
+
+    await client.getScore(42220, 5)
+
+    const [span] = exporter.getFinishedSpans()
+    expect(span.attributes).toMatchObject({
+      'http.response.status_code': 200,
+      'trust.payment.made': true,
+      'trust.payment.amount': '1000',
+      'trust.payment.network': 'eip155:42220',
+      'trust.payment.pay_to': '0xPayTo',
+    })
+
+    const [payments] = await metric('trust_client.payments')
+    expect(payments.value).toBe(1)
+    const [amount] = await metric('trust_client.payment.amount')
+    expect(amount.value).toBe(1000)
+  })
+
+  it('marks failed requests and counts failures', async () => {
+    const { exporter, tracer, meter, metric } = setup()
+    const fetch = vi.fn().mockResolvedValue(response(404, { error: 'Agent not found' }))
+    const client = new TrustClient({ apiKey: 'key', fetch, telemetry: { tracer, meter } }, BASE)
+
+    await expect(client.getAgent(42220, 5)).rejects.toThrow(NotFoundError)
+
+    const [span] = exporter.getFinishedSpans()
+    expect(span.status.code).toBe(SpanStatusCode.ERROR)
+    expect(span.attributes['http.response.status_code']).toBe(404)
+    expect(span.events.map((e) => e.name)).toContain('exception')
+
+    const [failure] = await metric('trust_client.failures')
+    expect(failure.value).toBe(1)
+    expect(failure.attributes).toMatchObject({ 'error.type': 'NotFoundError', 'trust.method': 'getAgent' })
+  })
+
+  it('counts requests and records duration', async () => {
+    const { meter, metric } = setup()
+    const fetch = vi.fn().mockResolvedValue(response(200, { agents: [], count: 0 }))
+    const client = new TrustClient({ apiKey: 'key', fetch, telemetry: { meter } }, BASE)
+
+    await client.search()
+    await client.search({ chainId: 42220 })
+
+    const [requests] = await metric('trust_client.requests')
+    expect(requests.value).toBe(2)
+    expect(requests.attributes).toMatchObject({ 'trust.method': 'search', 'http.response.status_code': 200 })
+    const [duration] = await metric('trust_client.request.duration')
+    expect(duration.value).toMatchObject({ count: 2 })
+  })
+
+  it('does not trace cache hits', async () => {
+    const { exporter, tracer } = setup()
+    const fetch = vi.fn().mockResolvedValue(response(200, { agent: { agentId: 5 } }))
+    const client = new TrustClient({ apiKey: 'key', fetch, cache: {}, telemetry: { tracer } }, BASE)
+
+    await client.getAgent(42220, 5)
+    await client.getAgent(42220, 5)
+
+    expect(exporter.getFinishedSpans()).toHaveLength(1)
+  })
+})
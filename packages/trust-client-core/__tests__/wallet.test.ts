@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createWalletClient, custom, encodeFunctionData, erc20Abi, parseEther } from 'viem'
+import { celo } from 'viem/chains'
+import { TrustClient, CounterpartyTrustError, trustActions } from '../src'
+import type { Evaluation, TrustActionsOptions } from '../src'
+
+const BASE = 'https://test-oracle.example.com'
+const SENDER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266'
+const USDC = '0xcebA9300f2b948710d2653dD7B07f33A8B32118C'
+const TX_HASH = `0x${'ab'.repeat(32)}`
+
+/** Recipient owner address → agent verdict served by the stubbed oracle */
+const OWNERS: Record<string, { agentId: number; action: Evaluation['recommended_action'] }> = {
+  '0x70997970c51812dc3a010c7d01b50e0d17dc79c8': { agentId: 1, action: 'allow' },
+  '0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc': { agentId: 2, action: 'review' },
+  '0x90f79bf6eb2c4f870365e785982e1f101e93b906': { agentId: 3, action: 'limit' },
+}
+const [TRUSTED, UNCERTAIN, RISKY] = Object.keys(OWNERS) as `0x${string}`[]
+const STRANGER = '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65'
+
+function reply(body: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    headers: new Headers(),
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  } as unknown as Response
+}
+
+function stubOracle() {
+  const fetch = vi.fn().mockImplementation((url: string, init: RequestInit) => {
+    if (url.includes('/search')) {
+      const q = new URL(url).searchParams.get('q')!.toLowerCase()
+      const owned = OWNERS[q]
+      const agents = owned ? [{ chainId: 42220, agentId: owned.agentId, owner: q, uri: null }] : []
+      return Promise.resolve(reply({ agents, count: agents.length }))
+    }
+    const { agentId, preset } = JSON.parse(init.body as string)
+    const owned = Object.values(OWNERS).find((o) => o.agentId === agentId)!
+    return Promise.resolve(reply({
+      evaluation: { recommended_action: owned.action, rationale: `Agent ${agentId} is ${owned.action}.`, preset, agentId },
+    }))
+  })
+  return { fetch, client: new TrustClient({ apiKey: 'test_key', fetch }, BASE) }
+}
+
+/** A viem wallet client on a mocked EIP-1193 transport that records what reaches the node */
+function wallet(options?: TrustActionsOptions) {
+  const oracle = stubOracle()
+  const rpc = vi.fn().mockImplementation(async ({ method }: { method: string }) => {
+    if (method === 'eth_chainId') return '0xa4ec'
+    if (method === 'eth_sendTransaction') return TX_HASH
+    throw new Error(`unexpected RPC ${method}`)
+  })
+  const client = createWalletClient({ account: SENDER, chain: celo, transport: custom({ request: rpc }) })
+    .extend(trustActions(oracle.client, options))
+  const sent = () => rpc.mock.calls.filter(([{ method }]) => method === 'eth_sendTransaction').map(([{ params }]) => params[0])
+  return { client, rpc, sent, oracle }
+}
+
+async function refusal(promise: Promise<unknown>) {
+  const error = await promise.catch((e: unknown) => e)
+  expect(error).toBeInstanceOf(CounterpartyTrustError)
+  return error as CounterpartyTrustError
+}
+
+describe('trustActions sendTransaction', () => {
+  it('sends to trusted agents after evaluating with defi_counterparty', async () => {
+    const { client, sent, oracle } = wallet()
+
+    await expect(client.sendTransaction({ to: TRUSTED, value: parseEther('1') })).resolves.toBe(TX_HASH)
+
+    expect(sent()).toEqual([expect.objectContaining({ to: TRUSTED })])
+    const evaluate = oracle.fetch.mock.calls.find(([url]) => url.endsWith('/trust/evaluate'))!
+    expect(JSON.parse(evaluate[1].body)).toMatchObject({ chainId: 42220, agentId: 1, preset: 'defi_counterparty' })
+  })
+
+  it('refuses limit without touching the node', async () => {
+    const { client, rpc } = wallet()
+
+    const error = await refusal(client.sendTransaction({ to: RISKY, value: parseEther('1') }))
+
+    expect(error.reason).toBe('refused')
+    expect(error.message).toContain('Agent 3 is limit.')
+    expect(error.checks).toEqual([expect.objectContaining({ address: RISKY, agents: [{ chainId: 42220, agentId: 3 }], action: 'limit' })])
+    expect(rpc).not.toHaveBeenCalled()
+  })
+
+  it('asks for confirmation on review', async () => {
+    const confirm = vi.fn().mockResolvedValueOnce(false).mockResolvedValueOnce(true)
+    const { client, sent } = wallet({ confirm })
+
+    expect((await refusal(client.sendTransaction({ to: UNCERTAIN }))).reason).toBe('unconfirmed')
+    await expect(client.sendTransaction({ to: UNCERTAIN })).resolves.toBe(TX_HASH)
+
+    expect(confirm).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'sendTransaction',
+      checks: [expect.objectContaining({ address: UNCERTAIN, action: 'review' })],
+    }))
+    expect(sent()).toHaveLength(1)
+  })
+
+  it('refuses review when no confirm hook is set', async () => {
+    const { client } = wallet()
+    expect((await refusal(client.sendTransaction({ to: UNCERTAIN }))).reason).toBe('unconfirmed')
+  })
+
+  it('applies unknownRecipient to addresses that are not agents', async () => {
+    await expect(wallet().client.sendTransaction({ to: STRANGER })).resolves.toBe(TX_HASH)
+    expect((await refusal(wallet({ unknownRecipient: 'limit' }).client.sendTransaction({ to: STRANGER }))).reason)
+      .toBe('refused')
+  })
+
+  it('checks the recipient of raw ERC-20 transfer calldata', async () => {
+    const data = encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [RISKY, BigInt(1000)] })
+    const error = await refusal(wallet().client.sendTransaction({ to: USDC, data }))
+
+    expect(error.checks.map((c) => c.address.toLowerCase())).toEqual([USDC.toLowerCase(), RISKY])
+  })
+})
+
+describe('trustActions writeContract', () => {
+  it('checks token recipients and spenders', async () => {
+    const { client, sent } = wallet()
+
+    await expect(client.writeContract({ address: USDC, abi: erc20Abi, functionName: 'transfer', args: [TRUSTED, BigInt(1000)] }))
+      .resolves.toBe(TX_HASH)
+    expect(sent()[0].to.toLowerCase()).toBe(USDC.toLowerCase())
+
+    const error = await refusal(
+      client.writeContract({ address: USDC, abi: erc20Abi, functionName: 'approve', args: [RISKY, BigInt(1000)] }),
+    )
+    expect(error.checks.find((c) => c.address === RISKY)?.action).toBe('limit')
+    expect(sent()).toHaveLength(1)
+  })
+
+  it('uses a custom resolver', async () => {
+    const resolveAgent = vi.fn().mockResolvedValue([{ chainId: 42220, agentId: 3 }])
+    const { client } = wallet({ resolveAgent })
+
+    await refusal(client.writeContract({ address: STRANGER, abi: erc20Abi, functionName: 'totalSupply' }))
+    expect(resolveAgent).toHaveBeenCalledWith(STRANGER, 42220)
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi } from 'vitest'
+import { TrustClient } from '../src'
+
+const BASE = 'https://test-oracle.example.com'
+
+function response(status: number, body: unknown, headers?: Record<string, string>) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers ?? {}),
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  } as unknown as Response
+}
+
+const PAYMENT_REQUIRED = {
+  x402Version: 2,
+  accepts: [{
+    scheme: 'exact',
+    network: 'eip155:42220',
+    amount: '1000',
+    asset: '0xcebA9300f2b948710d2653dD7B07f33A8B32118C',
+    payTo: '0xPayTo',
+    maxTimeoutSeconds: 30,
+    extra: { assetTransferMethod: 'eip3009', name: 'USD Coin', version: '2' },
+  }],
+  resource: { url: `${BASE}/api/v1/agent/42220/5/score`, description: 'Trust score', mimeType: 'application/json' },
+  error: 'missing payment header',
+}
+
+const RECEIPT = { success: true, transaction: '0xtxhash', network: 'eip155:42220', payer: '0xPayer' }
+
+/** 402 until X-PAYMENT is sent, then 200 with a settlement header */
+function paidFetch() {
+  return vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+    const headers = init.headers as Record<string, string>
+    if (!headers['X-PAYMENT']) {
+      return Promise.resolve(
+        response(402, PAYMENT_REQUIRED, { 'payment-required': btoa(JSON.stringify(PAYMENT_REQUIRED)) }),
+      )
+    }
+    return Promise.resolve(
+      response(200, { score: { value: 80 } }, { 'payment-response': btoa(JSON.stringify(RECEIPT)) }),
+    )
+  })
+}
+
+const account = {
+  address: '0x1234567890abcdef1234567890abcdef12345678' as `0x${string}`,
+  signTypedData: vi.fn().mockResolvedValue('0xsig' as `0x${string}`),
+}
+
+describe('TrustClient.withMeta', () => {
+  it('returns the requirement, authorization and receipt of the payment', async () => {
+    const client = new TrustClient({ account, fetch: paidFetch() }, BASE)
+
+    const { data, payment } = await client.withMeta().getScore(42220, 5)
+
+    expect(data).toEqual({ score: { value: 80 } })
+    expect(payment?.requirement.amount).toBe('1000')
+    expect(payment?.resource.description).toBe('Trust score')
+    expect(payment?.authorization).toMatchObject({ from: account.address, to: '0xPayTo', value: '1000' })
+    expect(payment?.signature).toBe('0xsig')
+    expect(payment?.receipt).toEqual(RECEIPT)
+  })
+
+  it('reports no payment for unpaid responses', async () => {
+    const fetch = vi.fn().mockResolvedValue(response(200, { agent: { agentId: 5 } }))
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+
+    await expect(client.withMeta().getAgent(42220, 5)).resolves.toEqual({
+      data: { agent: { agentId: 5 } },
+      payment: null,
+    })
+  })
+
+  it('reports no payment for cache hits', async () => {
+    const client = new TrustClient({ account, fetch: paidFetch(), cache: {} }, BASE)
+
+    const first = await client.withMeta().getScore(42220, 5)
+    const second = await client.withMeta().getScore(42220, 5)
+
+    expect(first.payment?.receipt?.transaction).toBe('0xtxhash')
+    expect(second.payment).toBeNull()
+    expect(second.data).toEqual(first.data)
+  })
+
+  it('reports the payment to every caller sharing a request', async () => {
+    const fetch = paidFetch()
+    const client = new TrustClient({ account, fetch }, BASE)
+
+    const [first, second] = await Promise.all([
+      client.withMeta().getScore(42220, 5),
+      client.withMeta().getScore(42220, 5),
+    ])
+
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect(first.payment?.receipt).toEqual(RECEIPT)
+    expect(second.payment).toBe(first.payment)
+  })
+
+  it('passes per-call options through', async () => {
+    const fetch = vi.fn().mockResolvedValue(response(200, { signals: [], count: 0 }))
+    const client = new TrustClient({ apiKey: 'key', fetch }, BASE)
+
+    await client.withMeta().getSignals(42220, 5, { status: 'open' })
+
+    expect(fetch.mock.calls[0][0]).toBe(`${BASE}/api/v1/agent/42220/5/signals?status=open`)
+  })
+
+  it('keeps the plain methods returning only the body', async () => {
+    const client = new TrustClient({ account, fetch: paidFetch() }, BASE)
+
+    await expect(client.getScore(42220, 5)).resolves.toEqual({ score: { value: 80 } })
+  })
+})
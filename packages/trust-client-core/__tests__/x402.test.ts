@@ -1,5 +1,12 @@
 import { describe, it, expect, vi } from 'vitest'
-import { decodePaymentRequired, buildPaymentHeader } from '../src/x402'
+import {
+  decodePaymentRequired,
+  decodePaymentResponse,
+  buildPaymentHeader,
+  signPayment,
+  serverTimeOffset,
+} from '../src/x402'
+import { TrustClient } from '../src/client'
 import { PaymentRequiredError } from '../src/errors'
 
 const MOCK_REQUIREMENT = {
@@ -180,3 +187,129 @@ describe('buildPaymentHeader', () => {
     ).rejects.toThrow(PaymentRequiredError)
   })
 })
+
+describe('signPayment', () => {
+  it('returns the header with the authorization it encodes', async () => {
+    const account = {
+      address: '0x1234567890abcdef1234567890abcdef12345678' as `0x${string}`,
+      signTypedData: vi.fn().mockResolvedValue('0xdeadbeef' as `0x${string}`),
+    }
+
+    const signed = await signPayment({ account }, MOCK_REQUIREMENT, MOCK_RESOURCE)
+
+    const decoded = JSON.parse(atob(signed.header))
+    expect(decoded.payload.authorization).toEqual(signed.authorization)
+    expect(signed.signature).toBe('0xdeadbeef')
+    expect(signed.authorization).toMatchObject({ to: '0xPayTo', value: '1000', validAfter: '0' })
+  })
+})
+
+describe('authorization validity window', () => {
+  const account = {
+    address: '0x1234567890abcdef1234567890abcdef12345678' as `0x${string}`,
+    signTypedData: vi.fn().mockResolvedValue('0xdeadbeef' as `0x${string}`),
+  }
+  const NOW = Date.UTC(2026, 9, 19, 18, 0, 0)
+  const NOW_S = NOW / 1000
+  const clock = () => NOW
+  const nonceSource = () => `0x${'ab'.repeat(32)}` as `0x${string}`
+
+  it('clamps validBefore to maxTimeoutSeconds', async () => {
+    const { authorization } = await signPayment({ account, clock }, MOCK_REQUIREMENT, MOCK_RESOURCE)
+    expect(authorization.validBefore).toBe(String(NOW_S + 30))
+
+    const long = { ...MOCK_REQUIREMENT, maxTimeoutSeconds: 7200 }
+    const fallback = await signPayment({ account, clock }, long, MOCK_RESOURCE)
+    expect(fallback.authorization.validBefore).toBe(String(NOW_S + 3600))
+  })
+
+  it('applies the configured window and injected nonce', async () => {
+    const { authorization } = await signPayment(
+      {
+        account,
+        clock,
+        nonceSource,
+        authorizationWindow: { validForSeconds: 10, validAfterLeewaySeconds: 5 },
+      },
+      MOCK_REQUIREMENT,
+      MOCK_RESOURCE,
+    )
+
+    expect(authorization).toMatchObject({
+      validAfter: String(NOW_S - 5),
+      validBefore: String(NOW_S + 10),
+      nonce: nonceSource(),
+    })
+    expect(account.signTypedData).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        message: expect.objectContaining({ validAfter: BigInt(NOW_S - 5), validBefore: BigInt(NOW_S + 10) }),
+      }),
+    )
+  })
+
+  it('offsets the clock by serverTimeOffsetMs', async () => {
+    const { authorization } = await signPayment(
+      { account, clock },
+      MOCK_REQUIREMENT,
+      MOCK_RESOURCE,
+      { serverTimeOffsetMs: 120_000 },
+    )
+    expect(authorization.validBefore).toBe(String(NOW_S + 120 + 30))
+  })
+
+  it('derives the server offset from the Date header', () => {
+    const date = new Date(NOW + 90_000).toUTCString()
+    expect(serverTimeOffset(makeResponse({ date }), NOW)).toBe(90_000)
+    expect(serverTimeOffset(makeResponse({}), NOW)).toBeUndefined()
+    expect(serverTimeOffset(makeResponse({ date: 'yesterday' }), NOW)).toBeUndefined()
+  })
+
+  it('signs against the 402 Date header when useServerTime is set', async () => {
+    const serverNow = NOW + 300_000
+    const fetch = vi.fn()
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 402,
+        headers: new Headers({
+          date: new Date(serverNow).toUTCString(),
+          'payment-required': btoa(JSON.stringify(MOCK_PAYMENT_REQUIRED_BODY)),
+        }),
+        json: () => Promise.resolve({}),
+      })
+      .mockResolvedValueOnce({ ok: true, status: 200, headers: new Headers(), json: () => Promise.resolve({}) })
+    const client = new TrustClient(
+      { account, fetch, clock, authorizationWindow: { useServerTime: true } },
+      'https://example.com',
+    )
+
+    const { payment } = await client.withMeta().getScore(42220, 5)
+
+    expect(payment?.authorization.validBefore).toBe(String(serverNow / 1000 + 30))
+  })
+})
+
+describe('decodePaymentResponse', () => {
+  const RECEIPT = {
+    success: true,
+    transaction: '0xabc123',
+    network: 'eip155:42220',
+    payer: '0x1234567890abcdef1234567890abcdef12345678',
+  }
+
+  it('decodes the PAYMENT-RESPONSE header', () => {
+    const response = makeResponse({ 'payment-response': btoa(JSON.stringify(RECEIPT)) })
+
+    expect(decodePaymentResponse(response)).toEqual(RECEIPT)
+  })
+
+  it('falls back to the v1 X-PAYMENT-RESPONSE header', () => {
+    const response = makeResponse({ 'X-PAYMENT-RESPONSE': btoa(JSON.stringify(RECEIPT)) })
+
+    expect(decodePaymentResponse(response)?.transaction).toBe('0xabc123')
+  })
+
+  it('returns undefined when the header is missing or malformed', () => {
+    expect(decodePaymentResponse(makeResponse({}))).toBeUndefined()
+    expect(decodePaymentResponse(makeResponse({ 'payment-response': '%%%' }))).toBeUndefined()
+  })
+})
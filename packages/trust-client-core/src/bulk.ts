@@ -0,0 +1,57 @@
+import { createLimiter } from './concurrency'
+import type { AgentRef, BulkItemResult, BulkResult } from './types'
+
+/** Default number of concurrent lookups for bulk methods */
+export const DEFAULT_BULK_CONCURRENCY = 5
+
+/** Key used in bulk result maps: `"<chainId>:<agentId>"` */
+export function agentKey(chainId: number, agentId: number): string {
+  return `${chainId}:${agentId}`
+}
+
+/** Drop repeated `(chainId, agentId)` pairs, keeping first-seen order */
+export function uniqueAgents(agents: AgentRef[]): AgentRef[] {
+  const seen = new Set<string>()
+  return agents.filter(({ chainId, agentId }) => {
+    const key = agentKey(chainId, agentId)
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+function toError(reason: unknown): Error {
+  return reason instanceof Error ? reason : new Error(String(reason))
+}
+
+/** Build a result map from already-settled items, preserving input order */
+export function toBulkResult<T>(items: Array<BulkItemResult<T>>): BulkResult<T> {
+  return new Map(items.map((item) => [agentKey(item.agent.chainId, item.agent.agentId), item]))
+}
+
+/** Mark every agent as failed with the same error */
+export function rejectAll<T>(agents: AgentRef[], reason: unknown): BulkResult<T> {
+  const error = toError(reason)
+  return toBulkResult<T>(agents.map((agent) => ({ status: 'rejected', agent, reason: error })))
+}
+
+/**
+ * Run `load` for each agent with at most `concurrency` in flight. Never
+ * rejects: each agent settles independently, `Promise.allSettled`-style.
+ */
+export async function settleEach<T>(
+  agents: AgentRef[],
+  concurrency: number,
+  load: (agent: AgentRef) => Promise<T>,
+): Promise<BulkResult<T>> {
+  const limit = createLimiter(concurrency)
+  const items = await Promise.all(
+    agents.map((agent) =>
+      limit(() => load(agent)).then(
+        (value): BulkItemResult<T> => ({ status: 'fulfilled', agent, value }),
+        (reason): BulkItemResult<T> => ({ status: 'rejected', agent, reason: toError(reason) }),
+      ),
+    ),
+  )
+  return toBulkResult(items)
+}
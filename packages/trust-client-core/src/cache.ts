@@ -0,0 +1,160 @@
+import type { CacheableMethod, CacheEntry, CacheOptions, CacheStore } from './types'
+
+/** Default per-method TTLs; methods not listed here are not cached unless configured */
+export const DEFAULT_CACHE_TTL_MS: Partial<Record<CacheableMethod, number>> = {
+  getAgent: 5 * 60_000,
+  getScore: 60_000,
+  getSignals: 60_000,
+  evaluate: 60_000,
+}
+
+const DEFAULT_MAX_ENTRIES = 1000
+
+/**
+ * In-memory LRU cache store. Entries are evicted least-recently-used first
+ * once `maxEntries` is reached; expiry is handled by the client, not the store.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>()
+
+  constructor(private readonly maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key)
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key)
+      this.entries.set(key, entry)
+    }
+    return entry
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string
+      this.entries.delete(oldest)
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key)
+  }
+
+  keys(prefix: string = ''): string[] {
+    return [...this.entries.keys()].filter((key) => key.startsWith(prefix))
+  }
+
+  clear(): void {
+    this.entries.clear()
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+}
+
+/** Timestamp the payload itself carries (`score.updatedAt`, `evaluation.evaluatedAt`) */
+function payloadTimestamp(value: unknown): number | undefined {
+  if (typeof value !== 'object' || value === null) return undefined
+  const record = value as Record<string, { updatedAt?: unknown; evaluatedAt?: unknown } | undefined>
+  const raw = record.score?.updatedAt ?? record.evaluation?.evaluatedAt
+  if (typeof raw !== 'string') return undefined
+  const ms = Date.parse(raw)
+  return Number.isNaN(ms) ? undefined : ms
+}
+
+/**
+ * Read-through cache with per-method TTLs and stale-while-revalidate.
+ *
+ * Keys are scoped by oracle base URL and `(chainId, agentId)` so one store can
+ * be shared between clients and invalidated per agent.
+ */
+export class ResponseCache {
+  private readonly store: CacheStore
+  private readonly ttlMs: Partial<Record<CacheableMethod, number>>
+  private readonly staleWhileRevalidateMs: number
+  private readonly refreshing = new Set<string>()
+
+  constructor(
+    options: CacheOptions,
+    private readonly namespace: string,
+  ) {
+    this.store = options.store ?? new MemoryCacheStore(options.maxEntries)
+    this.ttlMs = { ...DEFAULT_CACHE_TTL_MS, ...options.ttlMs }
+    this.staleWhileRevalidateMs = options.staleWhileRevalidateMs ?? 0
+  }
+
+  /** Key prefix shared by every cached response for one agent */
+  agentPrefix(chainId: number, agentId: number): string {
+    return `${this.namespace}|${chainId}:${agentId}|`
+  }
+
+  async wrap<T>(
+    method: CacheableMethod,
+    chainId: number,
+    agentId: number,
+    variant: string,
+    load: () => Promise<T>,
+  ): Promise<T> {
+    const ttl = this.ttlMs[method] ?? 0
+    if (ttl <= 0) return load()
+
+    const key = `${this.agentPrefix(chainId, agentId)}${method}${variant ? `|${variant}` : ''}`
+    const entry = (await this.store.get(key)) as CacheEntry<T> | undefined
+    const now = Date.now()
+
+    if (entry && now < entry.expiresAt) return entry.value
+
+    if (entry && now < entry.staleUntil) {
+      if (!this.refreshing.has(key)) {
+        this.refreshing.add(key)
+        // Background revalidation; on failure the stale entry keeps serving
+        this.fetchAndStore(key, ttl, load)
+          .catch(() => {})
+          .finally(() => this.refreshing.delete(key))
+      }
+      return entry.value
+    }
+
+    return this.fetchAndStore(key, ttl, load)
+  }
+
+  async invalidate(chainId: number, agentId: number): Promise<void> {
+    const keys = await this.store.keys(this.agentPrefix(chainId, agentId))
+    await Promise.all(keys.map((key) => this.store.delete(key)))
+  }
+
+  async clear(): Promise<void> {
+    const keys = await this.store.keys(`${this.namespace}|`)
+    await Promise.all(keys.map((key) => this.store.delete(key)))
+  }
+
+  private async fetchAndStore<T>(key: string, ttl: number, load: () => Promise<T>): Promise<T> {
+    const value = await load()
+    const storedAt = Date.now()
+    const dataTimestamp = payloadTimestamp(value)
+
+    // Never replace a cached payload with one the oracle produced earlier
+    // (e.g. a slow revalidation racing a fresher direct fetch)
+    const existing = await this.store.get(key)
+    if (
+      existing?.dataTimestamp != null &&
+      dataTimestamp != null &&
+      dataTimestamp < existing.dataTimestamp &&
+      storedAt < existing.expiresAt
+    ) {
+      return existing.value as T
+    }
+
+    await this.store.set(key, {
+      value,
+      storedAt,
+      expiresAt: storedAt + ttl,
+      staleUntil: storedAt + ttl + this.staleWhileRevalidateMs,
+      ...(dataTimestamp != null ? { dataTimestamp } : {}),
+    })
+    return value
+  }
+}
@@ -3,23 +3,77 @@ import {
   AuthenticationError,
   TrustClientError,
   PaymentRequiredError,
+  NotFoundError,
+  RateLimitError,
+  ValidationError,
+  ServerError,
+  TimeoutError,
+  NetworkError,
 } from './errors'
-import { buildPaymentHeader, decodePaymentRequired } from './x402'
+import type { ValidationErrorDetail } from './errors'
+import {
+  DEFAULT_BULK_CONCURRENCY,
+  agentKey,
+  rejectAll,
+  settleEach,
+  toBulkResult,
+  uniqueAgents,
+} from './bulk'
+import { ResponseCache } from './cache'
+import { createLimiter } from './concurrency'
+import type { Limiter } from './concurrency'
+import { paginate } from './pagination'
+import { evaluatePolicy, policyInputs } from './policy'
+import { PresetRegistry, applyPreset } from './presets'
+import type { EvaluateParams } from './presets'
+import { buildQuote } from './quote'
+import { RESPONSE_SCHEMAS, schemaMismatch } from './schemas'
+import { Telemetry } from './telemetry'
+import { computeBackoff, parseRetryAfter, resolveRetryPolicy, sleep } from './retry'
+import type { RetryPolicy } from './retry'
+import { apiKeyAuth, hybridAuth, x402Payment } from './middleware'
+import { decodePaymentRequired } from './x402'
 import type {
+  AgentEvent,
   AgentProfileResponse,
+  AgentRef,
   ApiKeyConfig,
+  BulkItemResult,
+  BulkMethod,
+  BulkOptions,
+  BulkRequest,
+  BulkResult,
+  CustomPreset,
+  CacheableMethod,
   TrustClientConfig,
   TrustClientFetch,
   EventsOptions,
   EventsResponse,
   EvaluateOptions,
   EvaluateResponse,
+  HybridConfig,
+  IterateEventsOptions,
+  IterateSearchOptions,
+  Middleware,
+  MiddlewareContext,
+  Operation,
+  PageIterator,
+  PolicyDecision,
+  RequestOptions,
   ScoreResponse,
+  SearchAgent,
   SearchOptions,
   SearchResponse,
   SignalsOptions,
   SignalsResponse,
   X402Config,
+  PaymentDetails,
+  PaymentRequiredBody,
+  PriceQuote,
+  QuotableMethod,
+  TrustClientWithMeta,
+  TrustPolicy,
+  WithMeta,
 } from './types'
 
 function isApiKeyConfig(config: TrustClientConfig): config is ApiKeyConfig {
@@ -30,10 +84,106 @@ function isX402Config(config: TrustClientConfig): config is X402Config {
   return 'account' in config
 }
 
+/** Paying with a key is opt-in: without `fallback`, an `account` next to `apiKey` is ignored */
+function isHybridConfig(config: TrustClientConfig): config is HybridConfig {
+  return isApiKeyConfig(config) && isX402Config(config) && (config as Partial<HybridConfig>).fallback != null
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/** Read a `retryAfter` (seconds) hint from a JSON error body */
+function retryAfterFromBody(body: unknown): number | undefined {
+  if (!isRecord(body)) return undefined
+  const seconds = Number(body.retryAfter ?? body.retry_after)
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined
+}
+
+/**
+ * Normalize field errors from a 400/422 body. Accepts `details`, `issues` or
+ * `errors` as an array of strings / `{ field | path, message }` objects, or as
+ * a `{ field: message | message[] }` map.
+ */
+function parseValidationDetails(body: unknown): ValidationErrorDetail[] {
+  if (!isRecord(body)) return []
+  const raw = body.details ?? body.issues ?? body.errors
+  const details: ValidationErrorDetail[] = []
+
+  if (Array.isArray(raw)) {
+    for (const item of raw) {
+      if (typeof item === 'string') {
+        details.push({ field: null, message: item })
+      } else if (isRecord(item)) {
+        const path = item.field ?? item.path ?? item.param
+        details.push({
+          field: Array.isArray(path) ? path.join('.') : typeof path === 'string' ? path : null,
+          message: String(item.message ?? item.msg ?? 'Invalid value'),
+        })
+      }
+    }
+  } else if (isRecord(raw)) {
+    for (const [field, messages] of Object.entries(raw)) {
+      for (const message of Array.isArray(messages) ? messages : [messages]) {
+        details.push({ field, message: String(message) })
+      }
+    }
+  }
+
+  return details
+}
+
+/**
+ * Combine the client-wide and per-call abort signals. A single signal is
+ * passed through as-is; `cleanup` detaches listeners once the call settles.
+ */
+function mergeSignals(
+  a: AbortSignal | undefined,
+  b: AbortSignal | undefined,
+): { signal?: AbortSignal; cleanup: () => void } {
+  if (!a || !b) return { signal: a ?? b, cleanup: () => {} }
+
+  const controller = new AbortController()
+  const detach = [a, b].map((source) => {
+    const onAbort = () => controller.abort(source.reason ?? new Error('Request aborted'))
+    if (source.aborted) onAbort()
+    else source.addEventListener('abort', onAbort, { once: true })
+    return () => source.removeEventListener('abort', onAbort)
+  })
+
+  return {
+    signal: controller.signal,
+    cleanup: () => detach.forEach((remove) => remove()),
+  }
+}
+
+/** Per-call hooks for `withMeta()` and `quote()` */
+interface CallHooks {
+  onPayment?: (payment: PaymentDetails) => void
+  /** Set for quotes: run without built-in auth/payment and report the 402 */
+  onPaymentRequired?: (paymentRequired: PaymentRequiredBody, operation: Operation) => void
+}
+
+/** An in-flight request shared by identical concurrent calls */
+interface SharedRequest {
+  promise: Promise<unknown>
+  /** `onPayment` hooks of every caller, so each `withMeta()` sees the shared payment */
+  payees: Array<(payment: PaymentDetails) => void>
+  payment?: PaymentDetails
+}
+
 export class TrustClient {
   private readonly baseUrl: string
   private readonly config: TrustClientConfig
   private readonly fetchImpl: TrustClientFetch
+  private readonly cache?: ResponseCache
+  private readonly limiter?: Limiter
+  private readonly inFlight = new Map<string, SharedRequest>()
+  private readonly middleware: Middleware[]
+  private readonly telemetry?: Telemetry
+  private readonly presets: PresetRegistry
+  /** Hooks for `withMeta()` / `quote()` calls, keyed by the per-call options object they pass down */
+  private readonly callHooks = new WeakMap<RequestOptions, CallHooks>()
 
   constructor(config: TrustClientConfig, defaultBaseUrl: string) {
     this.config = config
@@ -43,16 +193,138 @@ export class TrustClient {
     if (!this.fetchImpl) {
       throw new Error('Fetch API is not available. Provide config.fetch in this runtime.')
     }
+
+    if (config.cache) {
+      this.cache = new ResponseCache(config.cache, this.baseUrl)
+    }
+
+    if (config.telemetry) {
+      this.telemetry = new Telemetry(config.telemetry)
+    }
+
+    this.presets = new PresetRegistry(config.presets)
+
+    if (config.maxConcurrency != null) {
+      this.limiter = createLimiter(config.maxConcurrency)
+    }
+
+    // User middlewares wrap the built-ins: they see requests before auth is
+    // attached and responses after any x402 payment has been made
+    this.middleware = [...(config.middleware ?? [])]
+    if (isHybridConfig(config)) this.middleware.push(hybridAuth(config))
+    else if (isApiKeyConfig(config)) this.middleware.push(apiKeyAuth(config.apiKey))
+    else if (isX402Config(config)) this.middleware.push(x402Payment(config))
+  }
+
+  /**
+   * Register a custom evaluation preset usable as `evaluate(..., { preset: name })`.
+   * Throws when `name` is a server preset or the definition is malformed.
+   */
+  registerPreset(name: string, preset: CustomPreset): this {
+    this.presets.register(name, preset)
+    return this
+  }
+
+  /** Drop every cached response for one agent (no-op without `config.cache`) */
+  async invalidate(chainId: number, agentId: number): Promise<void> {
+    await this.cache?.invalidate(chainId, agentId)
+  }
+
+  /** Drop every cached response for this oracle (no-op without `config.cache`) */
+  async clearCache(): Promise<void> {
+    await this.cache?.clear()
+  }
+
+  /**
+   * The request methods, resolving to `{ data, payment }` so the x402
+   * authorization and settlement receipt (tx hash) are available:
+   *
+   * ```ts
+   * const { data, payment } = await client.withMeta().getScore(42220, 5)
+   * payment?.receipt?.transaction
+   * ```
+   */
+  withMeta(): TrustClientWithMeta {
+    return {
+      getAgent: (chainId, agentId, options) =>
+        this.callWithMeta(options ?? {}, (o) => this.getAgent(chainId, agentId, o)),
+      getScore: (chainId, agentId, options) =>
+        this.callWithMeta(options ?? {}, (o) => this.getScore(chainId, agentId, o)),
+      getSignals: (chainId, agentId, options) =>
+        this.callWithMeta(options ?? {}, (o) => this.getSignals(chainId, agentId, o)),
+      getEvents: (chainId, agentId, options) =>
+        this.callWithMeta(options ?? {}, (o) => this.getEvents(chainId, agentId, o)),
+      search: (options) => this.callWithMeta(options ?? {}, (o) => this.search(o)),
+      evaluate: (chainId, agentId, options) =>
+        this.callWithMeta(options, (o) => this.evaluate(chainId, agentId, o)),
+    }
+  }
+
+  /**
+   * Price one call without paying: sends it unauthenticated and unpaid,
+   * decodes the 402 and normalizes every offered option. Nothing is signed.
+   *
+   * ```ts
+   * const { selected } = await client.quote('getScore', [42220, 5])
+   * selected?.amount // '0.001'
+   * ```
+   */
+  async quote<M extends QuotableMethod>(
+    method: M,
+    args: Parameters<TrustClient[M]>,
+  ): Promise<PriceQuote> {
+    const optionsIndex = method === 'search' ? 0 : 2
+    const callArgs: unknown[] = [...args]
+    const options: RequestOptions = { ...(callArgs[optionsIndex] as RequestOptions), cache: false }
+    callArgs[optionsIndex] = options
+
+    let paymentRequired: PaymentRequiredBody | undefined
+    let operation: Operation | undefined
+    this.callHooks.set(options, {
+      onPaymentRequired: (body, op) => {
+        paymentRequired = body
+        operation = op
+      },
+    })
+
+    try {
+      await (this[method] as (...callArgs: unknown[]) => Promise<unknown>).apply(this, callArgs)
+    } catch (error) {
+      if (!paymentRequired) throw error
+    }
+
+    const x402 = isX402Config(this.config) ? this.config : undefined
+    return buildQuote(method, paymentRequired, x402?.selectRequirement, operation, x402?.paymentSchemes)
   }
 
   /** Get agent profile */
-  async getAgent(chainId: number, agentId: number): Promise<AgentProfileResponse> {
-    return this.request(`/agent/${chainId}/${agentId}`)
+  async getAgent(
+    chainId: number,
+    agentId: number,
+    options?: RequestOptions,
+  ): Promise<AgentProfileResponse> {
+    return this.cached('getAgent', chainId, agentId, '', options, () =>
+      this.request(
+        { method: 'getAgent', endpoint: '/agent/:chainId/:agentId', chainId, agentId },
+        `/agent/${chainId}/${agentId}`,
+        options,
+      ),
+    )
   }
 
   /** Get trust score (supports x402) */
-  async getScore(chainId: number, agentId: number): Promise<ScoreResponse> {
-    return this.request(`/agent/${chainId}/${agentId}/score`)
+  async getScore(
+    chainId: number,
+    agentId: number,
+    options?: RequestOptions,
+  ): Promise<ScoreResponse> {
+    return this.cached('getScore', chainId, agentId, '', options, () =>
+      this.request(
+        { method: 'getScore', endpoint: '/agent/:chainId/:agentId/score', chainId, agentId },
+        `/agent/${chainId}/${agentId}/score`,
+        options,
+      ),
+    )
   }
 
   /** Get agent signals/incidents (supports x402) */
@@ -64,7 +336,13 @@ export class TrustClient {
     const params = new URLSearchParams()
     if (options?.status) params.set('status', options.status)
     const qs = params.toString()
-    return this.request(`/agent/${chainId}/${agentId}/signals${qs ? `?${qs}` : ''}`)
+    return this.cached('getSignals', chainId, agentId, qs, options, () =>
+      this.request(
+        { method: 'getSignals', endpoint: '/agent/:chainId/:agentId/signals', chainId, agentId },
+        `/agent/${chainId}/${agentId}/signals${qs ? `?${qs}` : ''}`,
+        options,
+      ),
+    )
   }
 
   /** Get agent events */
@@ -78,7 +356,13 @@ export class TrustClient {
     if (options?.offset != null) params.set('offset', String(options.offset))
     if (options?.kind) params.set('kind', options.kind)
     const qs = params.toString()
-    return this.request(`/agent/${chainId}/${agentId}/events${qs ? `?${qs}` : ''}`)
+    return this.cached('getEvents', chainId, agentId, qs, options, () =>
+      this.request(
+        { method: 'getEvents', endpoint: '/agent/:chainId/:agentId/events', chainId, agentId },
+        `/agent/${chainId}/${agentId}/events${qs ? `?${qs}` : ''}`,
+        options,
+      ),
+    )
   }
 
   /** Search agents */
@@ -87,8 +371,63 @@ export class TrustClient {
     if (options?.q) params.set('q', options.q)
     if (options?.chainId != null) params.set('chainId', String(options.chainId))
     if (options?.limit != null) params.set('limit', String(options.limit))
+    if (options?.offset != null) params.set('offset', String(options.offset))
     const qs = params.toString()
-    return this.request(`/search${qs ? `?${qs}` : ''}`)
+    return this.request(
+      { method: 'search', endpoint: '/search' },
+      `/search${qs ? `?${qs}` : ''}`,
+      options,
+    )
+  }
+
+  /** Iterate all agent events page by page (`for await`, or `.collect({ max })`) */
+  iterateEvents(
+    chainId: number,
+    agentId: number,
+    options?: IterateEventsOptions,
+  ): PageIterator<AgentEvent> {
+    const { pageSize, ...rest } = options ?? {}
+    return paginate(
+      async (offset, limit) => {
+        const { events, pagination } = await this.getEvents(chainId, agentId, {
+          ...rest,
+          limit,
+          offset,
+        })
+        return { items: events, hasMore: pagination.hasMore }
+      },
+      pageSize,
+      options?.signal,
+    )
+  }
+
+  /**
+   * Iterate all search results page by page (`for await`, or `.collect({ max })`).
+   * Paging stops at the first page with no new agents, so it always ends on
+   * one extra request.
+   */
+  iterateSearch(options?: IterateSearchOptions): PageIterator<SearchAgent> {
+    const { pageSize, ...rest } = options ?? {}
+    let seen = new Set<string>()
+    return paginate(
+      async (offset, limit) => {
+        if (offset === 0) seen = new Set()
+        const { agents } = await this.search({ ...rest, limit, offset })
+        // A server that ignores `offset` repeats its first page: skip agents
+        // already yielded and stop once a page brings nothing new
+        const unseen = agents.filter(({ chainId, agentId }) => {
+          const key = agentKey(chainId, agentId)
+          if (seen.has(key)) return false
+          seen.add(key)
+          return true
+        })
+        // The search endpoint reports no total and may cap `limit` below
+        // `pageSize`, so even a short page may not be the last
+        return { items: unseen, hasMore: unseen.length > 0 }
+      },
+      pageSize,
+      options?.signal,
+    )
   }
 
   /** Evaluate agent trust with contextual preset (supports x402) */
@@ -97,97 +436,348 @@ export class TrustClient {
     agentId: number,
     options: EvaluateOptions,
   ): Promise<EvaluateResponse> {
-    return this.requestPost(`/trust/evaluate`, {
-      chainId,
-      agentId,
-      preset: options.preset,
-      ...(options.context ? { context: options.context } : {}),
-      ...(options.sensitivity ? { sensitivity: options.sensitivity } : {}),
-      ...(options.objective ? { objective: options.objective } : {}),
-    })
+    const response = await this.evaluateOnServer(chainId, agentId, this.presets.params(options), options)
+    return this.withPreset(response, options.preset)
   }
 
-  private async request<T>(path: string): Promise<T> {
-    const url = `${this.baseUrl}${API_PREFIX}${path}`
-    const headers: Record<string, string> = {}
+  /**
+   * Decide under a client-side `TrustPolicy`: fetches only the score,
+   * signals (all statuses) and/or evaluation the policy reads, in parallel,
+   * then applies `evaluatePolicy`.
+   */
+  async decide(
+    chainId: number,
+    agentId: number,
+    policy: TrustPolicy,
+    options?: RequestOptions,
+  ): Promise<PolicyDecision> {
+    const needs = policyInputs(policy)
+    const [score, signals, evaluation] = await Promise.all([
+      needs.has('score') ? this.getScore(chainId, agentId, options).then((r) => r.score) : undefined,
+      needs.has('signals')
+        ? this.getSignals(chainId, agentId, { ...options, status: 'all' }).then((r) => r.signals)
+        : undefined,
+      needs.has('evaluation')
+        ? this.evaluate(chainId, agentId, { ...options, preset: policy.evaluatePreset ?? 'default_safety' })
+          .then((r) => r.evaluation)
+        : undefined,
+    ])
+    return evaluatePolicy(policy, { score, signals, evaluation })
+  }
 
-    if (isApiKeyConfig(this.config)) {
-      headers.Authorization = `Bearer ${this.config.apiKey}`
-    }
+  /** Get trust scores for many agents; per-agent failures never reject the batch */
+  async getScores(
+    agents: AgentRef[],
+    options?: BulkOptions,
+  ): Promise<BulkResult<ScoreResponse>> {
+    return this.bulk('getScores', agents, options, undefined, ({ chainId, agentId }) =>
+      this.getScore(chainId, agentId, options),
+    )
+  }
 
-    const response = await this.fetchWithConfig(url, { headers })
+  /** Get profiles for many agents; per-agent failures never reject the batch */
+  async getAgents(
+    agents: AgentRef[],
+    options?: BulkOptions,
+  ): Promise<BulkResult<AgentProfileResponse>> {
+    return this.bulk('getAgents', agents, options, undefined, ({ chainId, agentId }) =>
+      this.getAgent(chainId, agentId, options),
+    )
+  }
 
-    // x402 retry: on 402 with an x402 account, sign and retry once
-    if (response.status === 402 && isX402Config(this.config)) {
-      const paymentRequired = decodePaymentRequired(response)
-      if (!paymentRequired.accepts.length) {
-        throw new PaymentRequiredError('No accepted payment methods', paymentRequired)
+  /** Evaluate many agents with the same preset; per-agent failures never reject the batch */
+  async evaluateMany(
+    agents: AgentRef[],
+    options: EvaluateOptions & BulkOptions,
+  ): Promise<BulkResult<EvaluateResponse>> {
+    const params = this.presets.params(options)
+    const results = await this.bulk('evaluateMany', agents, options, params, ({ chainId, agentId }) =>
+      this.evaluateOnServer(chainId, agentId, params, options),
+    )
+    if (!this.presets.get(options.preset)) return results
+    for (const [key, item] of results) {
+      if (item.status === 'fulfilled') {
+        results.set(key, { ...item, value: this.withPreset(item.value, options.preset) })
       }
+    }
+    return results
+  }
 
-      const requirement = paymentRequired.accepts[0]
-      const paymentHeader = await buildPaymentHeader(
-        this.config,
-        requirement,
-        paymentRequired.resource,
-      )
+  /** Raw `/trust/evaluate` call; cached per server request so custom presets share entries */
+  private async evaluateOnServer(
+    chainId: number,
+    agentId: number,
+    params: EvaluateParams,
+    options: RequestOptions,
+  ): Promise<EvaluateResponse> {
+    return this.cached('evaluate', chainId, agentId, JSON.stringify(params), options, () =>
+      this.requestPost(
+        { method: 'evaluate', endpoint: '/trust/evaluate', chainId, agentId },
+        `/trust/evaluate`,
+        { chainId, agentId, ...params },
+        options,
+      ),
+    )
+  }
 
-      const retryResponse = await this.fetchWithConfig(url, {
-        headers: { 'X-PAYMENT': paymentHeader },
-      })
+  private withPreset(response: EvaluateResponse, name: string): EvaluateResponse {
+    const preset = this.presets.get(name)
+    return preset ? { ...response, evaluation: applyPreset(response.evaluation, name, preset) } : response
+  }
+
+  private async bulk<T>(
+    method: BulkMethod,
+    agents: AgentRef[],
+    options: BulkOptions | undefined,
+    evaluate: BulkRequest['evaluate'],
+    load: (agent: AgentRef) => Promise<T>,
+  ): Promise<BulkResult<T>> {
+    const unique = uniqueAgents(agents)
+
+    if (this.config.bulkEndpoint && unique.length) {
+      let items: Array<BulkItemResult<unknown>> | undefined
+      try {
+        items = await this.config.bulkEndpoint({
+          method,
+          agents: unique,
+          ...(evaluate ? { evaluate } : {}),
+          post: (path, body) => this.requestPost({ method, endpoint: path }, path, body, options),
+        })
+      } catch (error) {
+        return rejectAll(unique, error)
+      }
 
-      return this.handleResponse<T>(retryResponse)
+      if (items) {
+        const byKey = toBulkResult(items as Array<BulkItemResult<T>>)
+        return toBulkResult(
+          unique.map((agent): BulkItemResult<T> =>
+            byKey.get(agentKey(agent.chainId, agent.agentId)) ?? {
+              status: 'rejected',
+              agent,
+              reason: new TrustClientError('Agent missing from bulk response', 0),
+            },
+          ),
+        )
+      }
     }
 
-    return this.handleResponse<T>(response)
+    return settleEach(unique, options?.concurrency ?? DEFAULT_BULK_CONCURRENCY, load)
   }
 
-  private async requestPost<T>(path: string, body: Record<string, unknown>): Promise<T> {
+  private async callWithMeta<T, O extends RequestOptions>(
+    options: O,
+    call: (options: O) => Promise<T>,
+  ): Promise<WithMeta<T>> {
+    // A fresh options object identifies this call all the way down to the pipeline
+    const callOptions = { ...options }
+    let payment: PaymentDetails | null = null
+    this.callHooks.set(callOptions, {
+      onPayment: (details) => {
+        payment = details
+      },
+    })
+    const data = await call(callOptions)
+    return { data, payment }
+  }
+
+  private async cached<T>(
+    method: CacheableMethod,
+    chainId: number,
+    agentId: number,
+    variant: string,
+    options: RequestOptions | undefined,
+    load: () => Promise<T>,
+  ): Promise<T> {
+    if (!this.cache || options?.cache === false) return load()
+    return this.cache.wrap(method, chainId, agentId, variant, load)
+  }
+
+  private async request<T>(
+    operation: Operation,
+    path: string,
+    options?: RequestOptions,
+  ): Promise<T> {
+    return this.send<T>(operation, path, { method: 'GET' }, options)
+  }
+
+  private async requestPost<T>(
+    operation: Operation,
+    path: string,
+    body: Record<string, unknown>,
+    options?: RequestOptions,
+  ): Promise<T> {
+    return this.send<T>(operation, path, { method: 'POST', body: JSON.stringify(body) }, options)
+  }
+
+  /**
+   * Coalesce identical in-flight requests (same method, URL and body) onto one
+   * promise, so concurrent callers share a single fetch — and a single x402
+   * payment, reported to every `withMeta()` caller. The first caller's
+   * per-call options apply to the shared request.
+   */
+  private async send<T>(
+    operation: Operation,
+    path: string,
+    init: { method: string; body?: string },
+    options?: RequestOptions,
+  ): Promise<T> {
     const url = `${this.baseUrl}${API_PREFIX}${path}`
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
+    const limited = (callOptions?: RequestOptions) => {
+      const run = () => this.dispatch<T>(operation, url, init, callOptions)
+      return this.limiter ? this.limiter(run) : run()
     }
 
-    if (isApiKeyConfig(this.config)) {
-      headers.Authorization = `Bearer ${this.config.apiKey}`
+    // A per-call signal must only abort its own caller, and a quote must never
+    // join a request that will pay, so such calls are not shared
+    const hooks = options && this.callHooks.get(options)
+    if (this.config.dedupe === false || options?.signal || hooks?.onPaymentRequired) return limited(options)
+
+    const key = `${init.method} ${url}${init.body ? ` ${init.body}` : ''}`
+    const pending = this.inFlight.get(key)
+    if (pending) {
+      if (hooks?.onPayment) {
+        if (pending.payment) hooks.onPayment(pending.payment)
+        else pending.payees.push(hooks.onPayment)
+      }
+      return pending.promise as Promise<T>
     }
 
-    const response = await this.fetchWithConfig(url, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(body),
+    // Fresh options carry the fan-out hook; the pipeline looks hooks up by identity
+    const sharedOptions = { ...options }
+    this.callHooks.set(sharedOptions, {
+      onPayment: (payment) => {
+        shared.payment = payment
+        shared.payees.forEach((notify) => notify(payment))
+      },
     })
+    const shared: SharedRequest = {
+      promise: limited(sharedOptions).finally(() => this.inFlight.delete(key)),
+      payees: hooks?.onPayment ? [hooks.onPayment] : [],
+    }
+    this.inFlight.set(key, shared)
+    return shared.promise as Promise<T>
+  }
 
-    // x402 retry for POST
-    if (response.status === 402 && isX402Config(this.config)) {
-      const paymentRequired = decodePaymentRequired(response)
-      if (!paymentRequired.accepts.length) {
-        throw new PaymentRequiredError('No accepted payment methods', paymentRequired)
-      }
+  private async dispatch<T>(
+    operation: Operation,
+    url: string,
+    init: { method: string; body?: string },
+    options?: RequestOptions,
+  ): Promise<T> {
+    const caller = mergeSignals(this.config.signal, options?.signal)
+    try {
+      return await this.dispatchWithSignal<T>(operation, url, init, options, caller.signal)
+    } finally {
+      caller.cleanup()
+    }
+  }
 
-      const requirement = paymentRequired.accepts[0]
-      const paymentHeader = await buildPaymentHeader(
-        this.config,
-        requirement,
-        paymentRequired.resource,
-      )
+  private async dispatchWithSignal<T>(
+    operation: Operation,
+    url: string,
+    init: { method: string; body?: string },
+    options: RequestOptions | undefined,
+    callerSignal: AbortSignal | undefined,
+  ): Promise<T> {
+    const retry = resolveRetryPolicy(this.config.retry, options?.retry)
+    const ctx: MiddlewareContext = {
+      request: {
+        url,
+        method: init.method,
+        headers: init.body ? { 'Content-Type': 'application/json' } : {},
+        ...(init.body ? { body: init.body } : {}),
+      },
+      operation,
+      options: options ?? {},
+      state: {},
+      fetch: (request) => this.fetchWithRetry(request.url, request, retry, callerSignal),
+    }
 
-      const retryResponse = await this.fetchWithConfig(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', 'X-PAYMENT': paymentHeader },
-        body: JSON.stringify(body),
-      })
+    const execute = (recordStatus: (status: number) => void) =>
+      this.runMiddleware<T>(ctx, recordStatus)
+    return this.telemetry ? this.telemetry.trace(ctx, execute) : execute(() => {})
+  }
+
+  private async runMiddleware<T>(
+    ctx: MiddlewareContext,
+    recordStatus: (status: number) => void,
+  ): Promise<T> {
+    const hooks = this.callHooks.get(ctx.options)
+    // Quotes skip the built-in auth and payment middlewares to see the bare 402
+    const middlewares = hooks?.onPaymentRequired ? this.config.middleware ?? [] : this.middleware
+    const reversed = [...middlewares].reverse()
+
+    try {
+      for (const middleware of middlewares) {
+        // Only yield for async hooks so the fetch starts in the caller's tick
+        const pending = middleware.onRequest?.(ctx)
+        if (pending) await pending
+      }
 
-      return this.handleResponse<T>(retryResponse)
+      let response = await ctx.fetch(ctx.request)
+      for (const middleware of reversed) {
+        response = (await middleware.onResponse?.(response, ctx)) ?? response
+      }
+      if (response.status === 402 && hooks?.onPaymentRequired) {
+        hooks.onPaymentRequired(decodePaymentRequired(response), ctx.operation)
+      }
+
+      recordStatus(response.status)
+      const data = await this.handleResponse<T>(response, ctx.operation)
+      if (ctx.payment) hooks?.onPayment?.(ctx.payment)
+      return data
+    } catch (error) {
+      for (const middleware of reversed) {
+        const recovered = await middleware.onError?.(error, ctx)
+        if (recovered) {
+          recordStatus(recovered.status)
+          return this.handleResponse<T>(recovered, ctx.operation)
+        }
+      }
+      throw error
     }
+  }
+
+  private async fetchWithRetry(
+    url: string,
+    init: { method: string; headers: Record<string, string>; body?: string },
+    retry: RetryPolicy,
+    callerSignal: AbortSignal | undefined,
+  ): Promise<Response> {
+    for (let attempt = 1; ; attempt++) {
+      const canRetry = attempt < retry.maxAttempts
+
+      let response: Response
+      try {
+        response = await this.fetchWithConfig(url, init, callerSignal)
+      } catch (error) {
+        // Caller-initiated aborts are final; timeouts and network failures are transient
+        if (!canRetry || !retry.retryOnNetworkError || callerSignal?.aborted) throw error
+        await sleep(computeBackoff(retry, attempt), callerSignal)
+        continue
+      }
 
-    return this.handleResponse<T>(response)
+      if (!canRetry || !retry.retryOnStatus.includes(response.status)) return response
+
+      let delay = computeBackoff(retry, attempt)
+      if (retry.respectRetryAfter) {
+        const retryAfter = parseRetryAfter(response.headers.get('retry-after'))
+        if (retryAfter != null) {
+          // Server asked for a longer pause than we are willing to wait — surface it
+          if (retryAfter > retry.maxDelayMs) return response
+          delay = retryAfter
+        }
+      }
+      await sleep(delay, callerSignal)
+    }
   }
 
   private async fetchWithConfig(
     url: string,
     init: { method?: string; headers: Record<string, string>; body?: string },
+    callerSignal?: AbortSignal,
   ): Promise<Response> {
-    const { signal, cleanup } = this.createRequestSignal()
+    const { signal, cleanup } = this.createRequestSignal(callerSignal)
     try {
       const requestInit: RequestInit = {
         method: init.method ?? 'GET',
@@ -196,17 +786,22 @@ export class TrustClient {
       if (init.body) requestInit.body = init.body
       if (signal) requestInit.signal = signal
       return await this.fetchImpl(url, requestInit)
+    } catch (error) {
+      if (signal?.aborted && signal.reason instanceof TimeoutError) throw signal.reason
+      // Caller-initiated aborts propagate untouched
+      if (callerSignal?.aborted) throw error
+      const message = error instanceof Error ? error.message : String(error)
+      throw new NetworkError(`Network error: ${message}`, error)
     } finally {
       cleanup()
     }
   }
 
-  private createRequestSignal(): {
+  private createRequestSignal(baseSignal?: AbortSignal): {
     signal?: AbortSignal
     cleanup: () => void
   } {
     const timeoutMs = this.config.timeoutMs
-    const baseSignal = this.config.signal
 
     if (timeoutMs == null) {
       return { signal: baseSignal, cleanup: () => {} }
@@ -228,7 +823,7 @@ export class TrustClient {
     }
 
     timeoutId = setTimeout(() => {
-      controller.abort(new Error(`Request timed out after ${timeoutMs}ms`))
+      controller.abort(new TimeoutError(`Request timed out after ${timeoutMs}ms`, timeoutMs))
     }, timeoutMs)
 
     return {
@@ -240,9 +835,23 @@ export class TrustClient {
     }
   }
 
-  private async handleResponse<T>(response: Response): Promise<T> {
+  private validateBody<T>(body: unknown, operation: Operation, status: number): T {
+    const mode = this.config.validate ?? 'off'
+    const schema = RESPONSE_SCHEMAS[operation.method]
+    if (mode === 'off' || !schema) return body as T
+
+    const issue = schema.check(body)
+    if (issue) {
+      const error = schemaMismatch(issue, body, status)
+      if (mode === 'strict') throw error
+      console.warn(`[trust-client] ${operation.method}: ${error.message}`)
+    }
+    return body as T
+  }
+
+  private async handleResponse<T>(response: Response, operation: Operation): Promise<T> {
     if (response.ok) {
-      return (await response.json()) as T
+      return this.validateBody<T>(await response.json(), operation, response.status)
     }
 
     let body: unknown
@@ -264,6 +873,29 @@ export class TrustClient {
       throw new PaymentRequiredError('Payment required', body)
     }
 
+    if (response.status === 404) {
+      throw new NotFoundError(`Not found: ${response.status}`, body)
+    }
+
+    if (response.status === 429) {
+      const retryAfterMs =
+        parseRetryAfter(response.headers.get('retry-after')) ?? retryAfterFromBody(body)
+      throw new RateLimitError(`Rate limit exceeded: ${response.status}`, retryAfterMs, body)
+    }
+
+    if (response.status === 400 || response.status === 422) {
+      throw new ValidationError(
+        `Validation failed: ${response.status}`,
+        response.status,
+        parseValidationDetails(body),
+        body,
+      )
+    }
+
+    if (response.status >= 500) {
+      throw new ServerError(`Server error: ${response.status}`, response.status, body)
+    }
+
     throw new TrustClientError(
       `API error: ${response.status}`,
       response.status,
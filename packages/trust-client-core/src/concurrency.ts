@@ -0,0 +1,31 @@
+/** Runs a task once a concurrency slot is free */
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>
+
+/**
+ * Create a FIFO limiter that runs at most `max` tasks at once.
+ * Tasks beyond the limit queue until a running task settles.
+ */
+export function createLimiter(max: number): Limiter {
+  if (!Number.isInteger(max) || max < 1) {
+    throw new RangeError(`Concurrency must be a positive integer, got ${max}`)
+  }
+
+  let active = 0
+  const queue: Array<() => void> = []
+
+  const release = () => {
+    active--
+    const next = queue.shift()
+    if (next) next()
+  }
+
+  return <T>(task: () => Promise<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      const run = () => {
+        active++
+        task().then(resolve, reject).finally(release)
+      }
+      if (active < max) run()
+      else queue.push(run)
+    })
+}
@@ -12,5 +12,42 @@ export const EIP3009_TYPES = {
   ],
 }
 
+/** Canonical Uniswap Permit2 deployment (same address on every EVM chain) */
+export const PERMIT2_ADDRESS = '0x000000000022D473030F116dDEE9F6B43aC78BA3'
+
+/**
+ * Permit2 `PermitWitnessTransferFrom` types; the witness binds the payee and
+ * `validAfter`, so the spender cannot redirect the transfer
+ */
+export const PERMIT2_WITNESS_TYPES = {
+  PermitWitnessTransferFrom: [
+    { name: 'permitted', type: 'TokenPermissions' },
+    { name: 'spender', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+    { name: 'witness', type: 'Witness' },
+  ],
+  TokenPermissions: [
+    { name: 'token', type: 'address' },
+    { name: 'amount', type: 'uint256' },
+  ],
+  Witness: [
+    { name: 'to', type: 'address' },
+    { name: 'validAfter', type: 'uint256' },
+  ],
+}
+
 /** Default signature validity window: 1 hour */
 export const SIGNATURE_VALIDITY_SECONDS = 3600
+
+/**
+ * Decimals of known x402 payment assets (lowercase address), for quotes when
+ * the 402 `extra` carries no `decimals`
+ */
+export const KNOWN_ASSET_DECIMALS: Record<string, number> = {
+  // USDC — Celo, Base, Avalanche C-Chain, Avalanche Fuji
+  '0xceba9300f2b948710d2653dd7b07f33a8b32118c': 6,
+  '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913': 6,
+  '0xb97ef9ef8734c71904d8002f8b6bc66dd9c48a6e': 6,
+  '0x5425890298aed601595a70ab815c96711a31bc65': 6,
+}
@@ -1,3 +1,11 @@
+import type {
+  CounterpartyCheck,
+  PaymentPolicyViolation,
+  PaymentRequirement,
+  PaymentVerificationFailure,
+  SignerFailure,
+} from './types'
+
 export class TrustClientError extends Error {
   constructor(
     message: string,
@@ -22,3 +30,166 @@ export class AuthenticationError extends TrustClientError {
     this.name = 'AuthenticationError'
   }
 }
+
+export class NotFoundError extends TrustClientError {
+  constructor(message: string, body?: unknown) {
+    super(message, 404, body)
+    this.name = 'NotFoundError'
+  }
+}
+
+export class RateLimitError extends TrustClientError {
+  constructor(
+    message: string,
+    /** Server-provided wait before retrying, from `Retry-After` or the body */
+    public readonly retryAfterMs?: number,
+    body?: unknown,
+  ) {
+    super(message, 429, body)
+    this.name = 'RateLimitError'
+  }
+}
+
+/** A single field-level problem reported by the API */
+export interface ValidationErrorDetail {
+  field: string | null
+  message: string
+}
+
+export class ValidationError extends TrustClientError {
+  constructor(
+    message: string,
+    status: number = 400,
+    public readonly details: ValidationErrorDetail[] = [],
+    body?: unknown,
+  ) {
+    super(message, status, body)
+    this.name = 'ValidationError'
+  }
+}
+
+export class ServerError extends TrustClientError {
+  constructor(message: string, status: number = 500, body?: unknown) {
+    super(message, status, body)
+    this.name = 'ServerError'
+  }
+}
+
+/** The request did not complete within `timeoutMs` (status 0: no response) */
+export class TimeoutError extends TrustClientError {
+  constructor(
+    message: string,
+    public readonly timeoutMs: number,
+  ) {
+    super(message, 0)
+    this.name = 'TimeoutError'
+  }
+}
+
+/** fetch itself failed — DNS, connection reset, TLS (status 0: no response) */
+export class NetworkError extends TrustClientError {
+  constructor(
+    message: string,
+    public readonly cause?: unknown,
+  ) {
+    super(message, 0)
+    this.name = 'NetworkError'
+  }
+}
+
+export class SchemaMismatchError extends TrustClientError {
+  constructor(
+    message: string,
+    /** Dotted path to the failing field, e.g. `evaluation.trust_band` */
+    public readonly path: string,
+    /** What the schema expected at `path` */
+    public readonly expected: string,
+    /** What the payload had at `path` */
+    public readonly received: string,
+    body?: unknown,
+    status: number = 0,
+  ) {
+    super(message, status, body)
+    this.name = 'SchemaMismatchError'
+  }
+}
+
+export class PaymentPolicyError extends TrustClientError {
+  constructor(
+    message: string,
+    /** Which `paymentPolicy` rule refused the payment */
+    public readonly reason: PaymentPolicyViolation,
+    /** The payment requirement that was refused */
+    public readonly requirement: PaymentRequirement,
+    body?: unknown,
+  ) {
+    super(message, 402, body)
+    this.name = 'PaymentPolicyError'
+  }
+}
+
+/** Server side: an incoming `X-PAYMENT` header failed `verifyPayment` */
+export class PaymentVerificationError extends TrustClientError {
+  constructor(
+    message: string,
+    /** Which check failed */
+    public readonly reason: PaymentVerificationFailure,
+    body?: unknown,
+  ) {
+    super(message, 402, body)
+    this.name = 'PaymentVerificationError'
+  }
+}
+
+/** An x402 signer adapter refused or failed to sign (status 0: nothing was sent) */
+export class SignerError extends TrustClientError {
+  constructor(
+    message: string,
+    /** `rejected` by policy or user, signer `unavailable`, or an `invalid_response` */
+    public readonly reason: SignerFailure,
+    public readonly cause?: unknown,
+  ) {
+    super(message, 0)
+    this.name = 'SignerError'
+  }
+}
+
+/** A trust policy document is malformed (status 0: nothing was requested) */
+export class TrustPolicyError extends TrustClientError {
+  constructor(
+    message: string,
+    /** Dotted path to the offending entry, e.g. `rules.2.when.op` */
+    public readonly path: string,
+  ) {
+    super(message, 0)
+    this.name = 'TrustPolicyError'
+  }
+}
+
+/** A custom preset definition was rejected by `PresetRegistry` (status 0: nothing was requested) */
+export class PresetError extends TrustClientError {
+  constructor(
+    message: string,
+    /** Name the preset was registered under */
+    public readonly preset: string,
+    /** Dotted path to the offending entry, e.g. `thresholds.1.field`; empty when the name itself is refused */
+    public readonly path: string,
+  ) {
+    super(message, 0)
+    this.name = 'PresetError'
+  }
+}
+
+/** A guarded wallet action was stopped by the recipient's trust evaluation (status 0: nothing was sent) */
+export class CounterpartyTrustError extends TrustClientError {
+  constructor(
+    message: string,
+    /** `refused` on `limit`, `unconfirmed` when a `review` was not confirmed */
+    public readonly reason: 'refused' | 'unconfirmed',
+    /** One entry per recipient address that was checked */
+    public readonly checks: CounterpartyCheck[],
+  ) {
+    super(message, 0)
+    this.name = 'CounterpartyTrustError'
+  }
+}
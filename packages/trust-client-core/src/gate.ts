@@ -0,0 +1,202 @@
+import { agentKey } from './bulk'
+import { NotFoundError } from './errors'
+import type {
+  AgentExtractor,
+  AgentIdentity,
+  AgentRef,
+  Evaluation,
+  TrustGate,
+  TrustGateDecision,
+  TrustGateDenial,
+  TrustGateDenialResponse,
+  TrustGateOptions,
+} from './types'
+
+export const DEFAULT_GATE_HEADER = 'X-Agent-Id'
+const DEFAULT_GATE_TTL_MS = 60_000
+const DEFAULT_GATE_ENTRIES = 1000
+
+const BAND_RANK: Record<Evaluation['trust_band'], number> = { insufficient_signal: 0, low: 1, medium: 2, high: 3 }
+const ACTION_RANK: Record<Evaluation['recommended_action'], number> = { allow: 0, review: 1, limit: 2 }
+
+const AGENT_ID = /^(?:eip155:)?(\d+):(?:(0x[0-9a-fA-F]{40}):)?(\d+)$/
+
+/**
+ * Parse a caller identity: `<chainId>:<agentId>` (as produced by
+ * `agentKey`), `eip155:<chainId>:<agentId>`, or the ERC-8004 registry form
+ * `eip155:<chainId>:<registry>:<agentId>`. The registry address is not
+ * checked against the oracle's.
+ */
+export function parseAgentId(value: string): AgentRef | undefined {
+  const match = AGENT_ID.exec(value.trim())
+  if (!match) return undefined
+  const chainId = Number(match[1])
+  const agentId = Number(match[3])
+  return Number.isSafeInteger(chainId) && Number.isSafeInteger(agentId) ? { chainId, agentId } : undefined
+}
+
+const DENIAL_STATUS: Record<TrustGateDenial, number> = {
+  missing_identity: 401,
+  invalid_identity: 401,
+  unknown_agent: 403,
+  below_min_band: 403,
+  action_refused: 403,
+  oracle_unavailable: 503,
+}
+
+const DENIAL_MESSAGE: Record<TrustGateDenial, string> = {
+  missing_identity: 'No agent identity was presented.',
+  invalid_identity: 'The agent identity could not be parsed.',
+  unknown_agent: 'The agent is not registered.',
+  below_min_band: 'The agent trust band is below the minimum for this endpoint.',
+  action_refused: 'The agent was refused by its trust evaluation.',
+  oracle_unavailable: 'The trust oracle is unavailable.',
+}
+
+/** Status and body for a refused caller: 401 without identity, 503 when the oracle failed, otherwise 403 */
+export function trustGateDenial(decision: TrustGateDecision): TrustGateDenialResponse {
+  const reason = decision.reason ?? 'action_refused'
+  const evaluation = decision.evaluation
+  return {
+    status: DENIAL_STATUS[reason],
+    body: {
+      error: 'trust_gate_denied',
+      reason,
+      agent: decision.agent,
+      rationale: evaluation?.rationale || DENIAL_MESSAGE[reason],
+      ...(evaluation
+        ? { trust_band: evaluation.trust_band, recommended_action: evaluation.recommended_action }
+        : {}),
+    },
+  }
+}
+
+function firstHeader(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value
+}
+
+/**
+ * Gate endpoints on the caller's ERC-8004 trust evaluation. Identities come
+ * from an adapter's `extract` or `options.header`; evaluations are cached per
+ * agent for `cacheTtlMs` and concurrent checks for one agent share a request.
+ * Callers are refused when their `trust_band` is below `minBand` or their
+ * `recommended_action` is stricter than `maxAction`. Oracle failures refuse
+ * (fail closed) and are not cached.
+ *
+ * The gate checks trust, not identity: the identity it is given must
+ * already be authenticated. The header is taken as-is, so use it only behind
+ * something that verified it.
+ *
+ * ```ts
+ * const gate = trustGate({ client: ds, minBand: 'medium' })
+ * app.use('/a2a', verifySignedRequest, gate.express({ extract: (req) => req.verifiedAgent }))
+ * ```
+ */
+export function trustGate(options: TrustGateOptions): TrustGate {
+  const header = options.header ?? DEFAULT_GATE_HEADER
+  const preset = options.preset ?? 'agent_to_agent'
+  const minBand = options.minBand
+  const maxAction = options.maxAction ?? 'review'
+  const ttlMs = options.cacheTtlMs ?? DEFAULT_GATE_TTL_MS
+  const maxEntries = options.maxCacheEntries ?? DEFAULT_GATE_ENTRIES
+  const clock = options.clock ?? Date.now
+
+  const cache = new Map<string, { evaluation: Evaluation; expiresAt: number }>()
+  const inFlight = new Map<string, Promise<Evaluation>>()
+
+  async function load(agent: AgentRef): Promise<{ evaluation: Evaluation; cached: boolean }> {
+    const key = agentKey(agent.chainId, agent.agentId)
+    const hit = cache.get(key)
+    if (hit && hit.expiresAt > clock()) return { evaluation: hit.evaluation, cached: true }
+    cache.delete(key)
+
+    let pending = inFlight.get(key)
+    if (!pending) {
+      pending = options.client
+        .evaluate(agent.chainId, agent.agentId, {
+          preset,
+          ...(options.context ? { context: options.context } : {}),
+        })
+        .then(({ evaluation }) => {
+          if (ttlMs > 0) {
+            cache.set(key, { evaluation, expiresAt: clock() + ttlMs })
+            if (cache.size > maxEntries) cache.delete(cache.keys().next().value as string)
+          }
+          return evaluation
+        })
+        .finally(() => inFlight.delete(key))
+      inFlight.set(key, pending)
+    }
+    return { evaluation: await pending, cached: false }
+  }
+
+  async function check(identity: AgentIdentity): Promise<TrustGateDecision> {
+    const deny = (reason: TrustGateDenial, agent: AgentRef | null = null): TrustGateDecision =>
+      ({ allowed: false, reason, agent, cached: false })
+
+    if (identity === null || identity === undefined || identity === '') return deny('missing_identity')
+    const agent = typeof identity === 'string' ? parseAgentId(identity) : identity
+    if (!agent) return deny('invalid_identity')
+
+    let result: { evaluation: Evaluation; cached: boolean }
+    try {
+      result = await load(agent)
+    } catch (error) {
+      return deny(error instanceof NotFoundError ? 'unknown_agent' : 'oracle_unavailable', agent)
+    }
+
+    const { evaluation, cached } = result
+    const reason: TrustGateDenial | null =
+      minBand && BAND_RANK[evaluation.trust_band] < BAND_RANK[minBand]
+        ? 'below_min_band'
+        : ACTION_RANK[evaluation.recommended_action] > ACTION_RANK[maxAction]
+          ? 'action_refused'
+          : null
+    return { allowed: reason === null, reason, agent, evaluation, cached }
+  }
+
+  async function identify<Req>(
+    request: Req,
+    extract: AgentExtractor<Req> | undefined,
+    fromHeader: () => string | undefined,
+  ): Promise<TrustGateDecision> {
+    return check(extract ? await extract(request) : fromHeader())
+  }
+
+  return {
+    check,
+
+    express(adapter = {}) {
+      return (req, res, next) => {
+        identify(req, adapter.extract, () => firstHeader(req.headers[header.toLowerCase()])).then(
+          (decision) => {
+            if (res.locals) res.locals.trust = decision
+            if (decision.allowed) return next()
+            const { status, body } = trustGateDenial(decision)
+            res.status(status).json(body)
+          },
+          next,
+        )
+      }
+    },
+
+    hono(adapter = {}) {
+      return async (c, next) => {
+        const decision = await identify(c, adapter.extract, () => c.req.header(header))
+        c.set('trust', decision)
+        if (decision.allowed) return next()
+        const { status, body } = trustGateDenial(decision)
+        return c.json(body, status)
+      }
+    },
+
+    fetch(handler, adapter = {}) {
+      return async (request) => {
+        const decision = await identify(request, adapter.extract, () => request.headers.get(header) ?? undefined)
+        if (decision.allowed) return handler(request, decision)
+        const { status, body } = trustGateDenial(decision)
+        return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+      }
+    },
+  }
+}
@@ -1,17 +1,185 @@
 export { TrustClient } from './client'
-export { TrustClientError, PaymentRequiredError, AuthenticationError } from './errors'
-export { decodePaymentRequired, buildPaymentHeader } from './x402'
-export { API_PREFIX, EIP3009_TYPES, SIGNATURE_VALIDITY_SECONDS } from './constants'
+export {
+  TrustClientError,
+  PaymentRequiredError,
+  AuthenticationError,
+  NotFoundError,
+  RateLimitError,
+  ValidationError,
+  ServerError,
+  TimeoutError,
+  NetworkError,
+  SchemaMismatchError,
+  PaymentPolicyError,
+  PaymentVerificationError,
+  SignerError,
+  TrustPolicyError,
+  CounterpartyTrustError,
+  PresetError,
+} from './errors'
+export type { ValidationErrorDetail } from './errors'
+export { agentKey } from './bulk'
+export { MemoryCacheStore, DEFAULT_CACHE_TTL_MS } from './cache'
+export { apiKeyAuth, hybridAuth, x402Payment } from './middleware'
+export { schemas } from './schemas'
+export { evaluatePolicy, validatePolicy } from './policy'
+export { trustGate, trustGateDenial, parseAgentId, DEFAULT_GATE_HEADER } from './gate'
+export { trustActions } from './wallet'
+export { recomputeScore, verifyScore, simulateScore, weightedSum } from './score'
+export { callbackSigner, httpSigner, eip1193Signer, toTypedDataJson } from './signers'
+export {
+  createPaymentRequired,
+  encodePaymentRequired,
+  paymentRequiredResponse,
+  encodePaymentResponse,
+  decodePaymentHeader,
+  verifyPayment,
+  MemoryNonceStore,
+} from './server'
+export {
+  MemoryPaymentLedger,
+  JsonlPaymentLedger,
+  spendByPeriod,
+  spendByEndpoint,
+  ledgerToCsv,
+} from './ledger'
+export type { LedgerFileSystem } from './ledger'
+export {
+  decodePaymentRequired,
+  decodePaymentResponse,
+  buildPaymentHeader,
+  signPayment,
+  isSupportedRequirement,
+  serverTimeOffset,
+} from './x402'
+export type { SignedPayment, SignOptions } from './x402'
+export {
+  PaymentSchemeRegistry,
+  DEFAULT_PAYMENT_SCHEMES,
+  eip3009Scheme,
+  permit2Scheme,
+} from './schemes'
+export {
+  API_PREFIX,
+  EIP3009_TYPES,
+  PERMIT2_ADDRESS,
+  PERMIT2_WITNESS_TYPES,
+  SIGNATURE_VALIDITY_SECONDS,
+  KNOWN_ASSET_DECIMALS,
+} from './constants'
 export type {
   TrustClientConfig,
   TrustClientFetch,
   BaseClientConfig,
   ApiKeyConfig,
   X402Config,
+  TrustPolicy,
+  PolicyRule,
+  PolicyCondition,
+  PolicyOperator,
+  PolicyValue,
+  SignalFilter,
+  PolicyInput,
+  PolicyEvidence,
+  PolicyDecision,
+  FiredRule,
+  TrustDecision,
+  TrustGate,
+  TrustGateOptions,
+  TrustGateAdapterOptions,
+  TrustGateDecision,
+  TrustGateDenial,
+  TrustGateDenialResponse,
+  TrustEvaluator,
+  AgentIdentity,
+  AgentExtractor,
+  ExpressLikeRequest,
+  ExpressLikeResponse,
+  HonoLikeContext,
+  TrustActionsOptions,
+  CounterpartyOracle,
+  CounterpartyCheck,
+  CounterpartyReview,
+  GuardableWalletClient,
+  X402Account,
+  TypedDataRequest,
+  SignerFailure,
+  SigningApproval,
+  SignerOptions,
+  HttpSignerOptions,
+  Eip1193Provider,
+  HybridConfig,
+  X402FallbackPolicy,
+  AuthorizationWindow,
+  PaymentScheme,
+  PaymentSigningContext,
+  SchemePayload,
+  PaymentPayload,
+  Eip3009Payload,
+  PaymentVerificationFailure,
+  NonceStore,
+  TypedDataRecoverer,
+  VerifyPaymentOptions,
+  VerifiedPayment,
+  PaymentPolicy,
+  PaymentAttempt,
+  PaymentPolicyViolation,
+  AtomicAmount,
+  RequirementStrategy,
+  RequirementPreferences,
+  RequirementSelector,
+  PaymentLedger,
+  LedgerEntry,
+  LedgerQuery,
+  SpendSummary,
+  RetryOptions,
+  RequestOptions,
+  CacheOptions,
+  CacheStore,
+  CacheEntry,
+  CacheableMethod,
+  AgentRef,
+  BulkOptions,
+  BulkItemResult,
+  BulkResult,
+  BulkMethod,
+  BulkRequest,
+  BulkEndpointHook,
+  Middleware,
+  MiddlewareContext,
+  MiddlewareRequest,
+  Operation,
+  PaymentInfo,
+  PaymentDetails,
+  PaymentAuthorization,
+  PaymentReceipt,
+  WithMeta,
+  TrustClientWithMeta,
+  QuotableMethod,
+  PriceQuote,
+  QuoteOption,
+  TelemetryOptions,
+  TelemetryTracer,
+  TelemetryMeter,
+  TelemetrySpan,
+  TelemetryCounter,
+  TelemetryHistogram,
+  TelemetryAttributes,
+  ValidationMode,
+  Schema,
+  SchemaIssue,
   AgentProfile,
   AgentProfileResponse,
   ScoreBreakdownEntry,
   TrustScore,
+  ScoreComponent,
+  ScoreFormula,
+  ScoreVerifyOptions,
+  ScoreContribution,
+  ScoreVerification,
+  ScoreChanges,
+  ScoreSimulateOptions,
+  ScoreSimulation,
   ScoreResponse,
   Signal,
   SignalsResponse,
@@ -22,11 +190,20 @@ export type {
   EventsOptions,
   SearchOptions,
   SignalsOptions,
+  IterateEventsOptions,
+  IterateSearchOptions,
+  CollectOptions,
+  PageIterator,
   PaymentRequirement,
   ResourceInfo,
   PaymentRequiredBody,
   EvaluateOptions,
   EvaluatePreset,
+  PresetName,
+  CustomPreset,
+  EvidenceThreshold,
+  NumericEvidenceField,
+  ThresholdBreach,
   EvaluateResponse,
   Evaluation,
   EvaluationEvidence,
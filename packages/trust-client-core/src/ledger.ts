@@ -0,0 +1,188 @@
+import type {
+  LedgerEntry,
+  LedgerQuery,
+  PaymentLedger,
+  PaymentReceipt,
+  SpendSummary,
+} from './types'
+
+function toTime(value: Date | number): number {
+  return value instanceof Date ? value.getTime() : value
+}
+
+function matches(entry: LedgerEntry, query: LedgerQuery): boolean {
+  const signedAt = Date.parse(entry.signedAt)
+  if (query.from != null && signedAt < toTime(query.from)) return false
+  if (query.to != null && signedAt >= toTime(query.to)) return false
+  if (query.endpoint != null && entry.endpoint !== query.endpoint) return false
+  if (query.asset != null && entry.asset.toLowerCase() !== query.asset.toLowerCase()) return false
+  if (query.chainId != null && entry.chainId !== query.chainId) return false
+  if (query.agentId != null && entry.agentId !== query.agentId) return false
+  return true
+}
+
+function settledFields(receipt: PaymentReceipt): Pick<LedgerEntry, 'status' | 'receipt'> {
+  return { status: receipt.success ? 'settled' : 'failed', receipt }
+}
+
+function query(entries: Iterable<LedgerEntry>, filter: LedgerQuery = {}): LedgerEntry[] {
+  return [...entries]
+    .filter((entry) => matches(entry, filter))
+    .sort((a, b) => Date.parse(a.signedAt) - Date.parse(b.signedAt))
+}
+
+/** In-process ledger; entries are lost when the process exits */
+export class MemoryPaymentLedger implements PaymentLedger {
+  private readonly byNonce = new Map<string, LedgerEntry>()
+
+  async record(entry: LedgerEntry): Promise<void> {
+    this.byNonce.set(entry.nonce, { ...entry })
+  }
+
+  async settle(nonce: string, receipt: PaymentReceipt): Promise<void> {
+    const entry = this.byNonce.get(nonce)
+    if (entry) this.byNonce.set(nonce, { ...entry, ...settledFields(receipt) })
+  }
+
+  async entries(filter?: LedgerQuery): Promise<LedgerEntry[]> {
+    return query(this.byNonce.values(), filter)
+  }
+}
+
+/** File access used by `JsonlPaymentLedger`; defaults to `node:fs/promises` */
+export interface LedgerFileSystem {
+  appendFile(path: string, data: string): Promise<void>
+  readFile(path: string, encoding: 'utf8'): Promise<string>
+}
+
+async function nodeFileSystem(): Promise<LedgerFileSystem> {
+  // Non-literal specifier keeps bundlers from pulling fs into browser builds
+  const specifier = 'node:fs/promises'
+  return (await import(specifier)) as LedgerFileSystem
+}
+
+/**
+ * Append-only JSON-lines ledger. `record` writes the entry and `settle`
+ * appends a `{ nonce, status, receipt }` patch; reads merge lines by nonce, so
+ * the file is never rewritten.
+ */
+export class JsonlPaymentLedger implements PaymentLedger {
+  private fs?: Promise<LedgerFileSystem>
+  private writes: Promise<void> = Promise.resolve()
+
+  constructor(
+    private readonly path: string,
+    options?: { fs?: LedgerFileSystem },
+  ) {
+    if (options?.fs) this.fs = Promise.resolve(options.fs)
+  }
+
+  async record(entry: LedgerEntry): Promise<void> {
+    await this.append(entry)
+  }
+
+  async settle(nonce: string, receipt: PaymentReceipt): Promise<void> {
+    await this.append({ nonce, ...settledFields(receipt) })
+  }
+
+  async entries(filter?: LedgerQuery): Promise<LedgerEntry[]> {
+    await this.writes
+    const fs = await this.fileSystem()
+
+    let text: string
+    try {
+      text = await fs.readFile(this.path, 'utf8')
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') return []
+      throw error
+    }
+
+    const byNonce = new Map<string, LedgerEntry>()
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue
+      const patch = JSON.parse(line) as Partial<LedgerEntry> & { nonce: string }
+      byNonce.set(patch.nonce, { ...byNonce.get(patch.nonce), ...patch } as LedgerEntry)
+    }
+    // Patches whose entry line is missing have no signedAt; skip them
+    return query([...byNonce.values()].filter((entry) => entry.signedAt), filter)
+  }
+
+  private fileSystem(): Promise<LedgerFileSystem> {
+    this.fs ??= nodeFileSystem()
+    return this.fs
+  }
+
+  /** Serialize appends so a settle line never lands before its entry */
+  private append(line: object): Promise<void> {
+    const write = this.writes.then(async () => {
+      const fs = await this.fileSystem()
+      await fs.appendFile(this.path, `${JSON.stringify(line)}\n`)
+    })
+    this.writes = write.catch(() => {})
+    return write
+  }
+}
+
+function sumBy(entries: LedgerEntry[], keyOf: (entry: LedgerEntry) => string): SpendSummary[] {
+  const groups = new Map<string, { key: string; asset: string; amount: bigint; count: number }>()
+  for (const entry of entries) {
+    if (entry.status === 'failed') continue
+    const key = keyOf(entry)
+    const asset = entry.asset.toLowerCase()
+    const id = `${key}|${asset}`
+    const group = groups.get(id) ?? { key, asset, amount: BigInt(0), count: 0 }
+    group.amount += BigInt(entry.amount)
+    group.count += 1
+    groups.set(id, group)
+  }
+  return [...groups.values()].map((group) => ({ ...group, amount: group.amount.toString() }))
+}
+
+/**
+ * Total spend per UTC period (`2026-10-19T18`, `2026-10-19` or `2026-10`) and
+ * asset. Entries whose settlement failed are excluded; unsettled ones count.
+ */
+export function spendByPeriod(
+  entries: LedgerEntry[],
+  period: 'hour' | 'day' | 'month' = 'day',
+): SpendSummary[] {
+  const length = period === 'hour' ? 13 : period === 'day' ? 10 : 7
+  return sumBy(entries, (entry) => new Date(entry.signedAt).toISOString().slice(0, length))
+}
+
+/** Total spend per endpoint template and asset; failed settlements excluded */
+export function spendByEndpoint(entries: LedgerEntry[]): SpendSummary[] {
+  return sumBy(entries, (entry) => entry.endpoint)
+}
+
+const CSV_COLUMNS = [
+  'signedAt',
+  'status',
+  'nonce',
+  'amount',
+  'asset',
+  'network',
+  'payTo',
+  'payer',
+  'resourceUrl',
+  'method',
+  'endpoint',
+  'chainId',
+  'agentId',
+  'transaction',
+] as const
+
+function csvCell(value: unknown): string {
+  const text = value == null ? '' : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** RFC 4180 CSV with a header row; `transaction` is the settlement tx hash */
+export function ledgerToCsv(entries: LedgerEntry[]): string {
+  const rows = entries.map((entry) =>
+    CSV_COLUMNS.map((column) =>
+      csvCell(column === 'transaction' ? entry.receipt?.transaction : entry[column]),
+    ).join(','),
+  )
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n'
+}
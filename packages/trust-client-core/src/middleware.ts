@@ -0,0 +1,268 @@
+import { PaymentPolicyGuard } from './payment-policy'
+import { parseRetryAfter } from './retry'
+import { selectRequirement } from './selection'
+import { decodePaymentRequired, decodePaymentResponse, serverTimeOffset, signPayment } from './x402'
+import type { SignedPayment } from './x402'
+import type {
+  HybridConfig,
+  Middleware,
+  MiddlewareContext,
+  Operation,
+  PaymentReceipt,
+  PaymentRequirement,
+  ResourceInfo,
+  X402Config,
+} from './types'
+
+/** Built-in middleware: `Authorization: Bearer <apiKey>` on every request */
+export function apiKeyAuth(apiKey: string): Middleware {
+  return {
+    name: 'apiKeyAuth',
+    onRequest(ctx) {
+      ctx.request.headers.Authorization = `Bearer ${apiKey}`
+    },
+  }
+}
+
+/** Default lifetime of a remembered payment requirement for `proactivePayment` */
+export const PROACTIVE_PAYMENT_TTL_MS = 10 * 60 * 1000
+
+interface KnownRequirement {
+  requirement: PaymentRequirement
+  resource: ResourceInfo
+  expiresAt: number
+}
+
+/** Remembered requirements are per oracle, HTTP method and endpoint template */
+function requirementKey(ctx: MiddlewareContext): string {
+  return `${new URL(ctx.request.url).origin} ${ctx.request.method} ${ctx.operation.endpoint}`
+}
+
+/**
+ * Built-in middleware: on a 402, sign the requirement picked by
+ * `config.selectRequirement` (default: the first supported one) and resend
+ * the request once with `X-PAYMENT`. `config.paymentPolicy` is checked before
+ * signing; budgets are shared by every request through this middleware. With
+ * `config.ledger`, each authorization is recorded before it is sent and its
+ * settlement receipt attached afterwards; one answered with another 402 is
+ * settled as failed.
+ *
+ * With `config.proactivePayment`, the requirement of each successful payment
+ * is remembered and later requests to the same endpoint are signed up front,
+ * skipping the 402 round trip; a 402 in reply falls back to the normal flow
+ * and the refused authorization is settled as failed in the ledger.
+ *
+ * The paid request goes through `ctx.fetch`, so transient failures after
+ * paying resend the same signed authorization — its nonce can settle at most
+ * once — and never sign a second payment.
+ */
+export function x402Payment(config: X402Config): Middleware {
+  const clock = config.clock ?? Date.now
+  const guard = config.paymentPolicy && new PaymentPolicyGuard(config.paymentPolicy, clock)
+  let serverOffsetMs: number | undefined
+  const known = new Map<string, KnownRequirement>()
+  const proactiveTtlMs = !config.proactivePayment
+    ? 0
+    : config.proactivePayment === true
+      ? PROACTIVE_PAYMENT_TTL_MS
+      : config.proactivePayment.ttlMs ?? PROACTIVE_PAYMENT_TTL_MS
+
+  /** Check policy, sign, and record one payment; returns the X-PAYMENT header */
+  async function pay(
+    ctx: MiddlewareContext,
+    requirement: PaymentRequirement,
+    resource: ResourceInfo,
+  ): Promise<{ header: string; release?: () => void }> {
+    const release = await guard?.authorize(requirement, resource, ctx.operation)
+
+    let signed: SignedPayment
+    try {
+      signed = await signPayment(config, requirement, resource, { serverTimeOffsetMs: serverOffsetMs })
+    } catch (error) {
+      release?.()
+      throw error
+    }
+
+    const { header, authorization, signature } = signed
+    ctx.payment = { requirement, resource, authorization, signature }
+
+    if (config.ledger) {
+      try {
+        await config.ledger.record({
+          nonce: authorization.nonce,
+          signedAt: new Date(clock()).toISOString(),
+          status: 'signed',
+          amount: requirement.amount,
+          asset: requirement.asset,
+          network: requirement.network,
+          payTo: requirement.payTo,
+          payer: authorization.from,
+          resourceUrl: resource.url,
+          method: ctx.operation.method,
+          endpoint: ctx.operation.endpoint,
+          ...(ctx.operation.chainId != null ? { chainId: ctx.operation.chainId } : {}),
+          ...(ctx.operation.agentId != null ? { agentId: ctx.operation.agentId } : {}),
+        })
+      } catch (error) {
+        // Unsent, so nothing was paid; give the budget back too
+        release?.()
+        throw error
+      }
+    }
+
+    return { header, release }
+  }
+
+  /** Settle a ledger entry; a ledger outage goes to `onLedgerError` rather than failing the call */
+  async function settle(nonce: string, receipt: PaymentReceipt): Promise<void> {
+    await config.ledger?.settle(nonce, receipt).catch((error: unknown) => config.onLedgerError?.(error, nonce))
+  }
+
+  /** Attach the settlement receipt from a paid response */
+  async function recordReceipt(response: Response, ctx: MiddlewareContext): Promise<void> {
+    const receipt = ctx.payment && decodePaymentResponse(response)
+    if (!ctx.payment || !receipt) return
+    ctx.payment.receipt = receipt
+    // The data is paid for; a ledger outage must not discard it
+    await settle(ctx.payment.authorization.nonce, receipt)
+  }
+
+  /** Mark a payment the server refused as failed, so spend reports skip it */
+  async function recordRejection(ctx: MiddlewareContext): Promise<void> {
+    const payment = ctx.payment
+    if (!payment) return
+    delete ctx.payment
+    await settle(payment.authorization.nonce, {
+      success: false,
+      transaction: '',
+      network: payment.requirement.network,
+      errorReason: 'rejected',
+    })
+  }
+
+  return {
+    name: 'x402Payment',
+    onRequest(ctx) {
+      if (!proactiveTtlMs) return
+      const entry = known.get(requirementKey(ctx))
+      if (!entry) return
+      if (entry.expiresAt <= clock()) {
+        known.delete(requirementKey(ctx))
+        return
+      }
+
+      // Only async when paying, so unpaid requests still start in the caller's tick
+      return (async () => {
+        const resource = { ...entry.resource, url: ctx.request.url }
+        const { header, release } = await pay(ctx, entry.requirement, resource)
+        ctx.state.x402Proactive = { release }
+        ctx.request.headers['X-PAYMENT'] = header
+      })()
+    },
+    async onResponse(response, ctx) {
+      if (config.authorizationWindow?.useServerTime) {
+        serverOffsetMs = serverTimeOffset(response, clock()) ?? serverOffsetMs
+      }
+
+      if (response.status !== 402) {
+        if (ctx.state.x402Proactive) await recordReceipt(response, ctx)
+        return
+      }
+
+      const proactive = ctx.state.x402Proactive as { release?: () => void } | undefined
+      if (proactive) {
+        // Rejected up front: the requirement changed, so forget it and refund the budget
+        known.delete(requirementKey(ctx))
+        proactive.release?.()
+        delete ctx.state.x402Proactive
+        await recordRejection(ctx)
+      }
+
+      const paymentRequired = decodePaymentRequired(response)
+      const requirement = await selectRequirement(
+        paymentRequired,
+        config.selectRequirement,
+        ctx.operation,
+        config.paymentSchemes,
+      )
+      const { header, release } = await pay(ctx, requirement, paymentRequired.resource)
+
+      const paid = await ctx.fetch({
+        ...ctx.request,
+        headers: { ...ctx.request.headers, 'X-PAYMENT': header },
+      })
+      if (proactiveTtlMs && paid.ok) {
+        known.set(requirementKey(ctx), {
+          requirement,
+          resource: paymentRequired.resource,
+          expiresAt: clock() + proactiveTtlMs,
+        })
+      }
+      if (paid.status === 402) {
+        // Refused even with payment: nothing settled, so refund the budget and
+        // keep it out of spend reports
+        release?.()
+        await recordRejection(ctx)
+      } else {
+        await recordReceipt(paid, ctx)
+      }
+      return paid
+    },
+  }
+}
+
+/** Default time a hybrid client pays directly after its API key is rejected */
+export const HYBRID_KEY_COOLDOWN_MS = 60 * 1000
+
+/**
+ * Built-in middleware for hybrid configs: sends the API key and, when the
+ * response is one of `config.fallback.onStatus` (default 402 and 429) for an
+ * endpoint the policy allows, drops the key and pays via `x402Payment`.
+ *
+ * A 402 is paid as-is. Any other trigger (rate limit, exhausted quota) is
+ * resent unauthenticated to obtain the 402, and the key is skipped for allowed
+ * endpoints until `Retry-After` or `cooldownMs` has passed.
+ */
+export function hybridAuth(config: HybridConfig): Middleware {
+  const key = apiKeyAuth(config.apiKey)
+  const payment = x402Payment(config)
+  const fallback = config.fallback
+  const onStatus = fallback.onStatus ?? [402, 429]
+  const clock = config.clock ?? Date.now
+  let keyBlockedUntil = 0
+
+  const mayFallBack = (operation: Operation) =>
+    !fallback.endpoints ||
+    fallback.endpoints.includes(operation.method) ||
+    fallback.endpoints.includes(operation.endpoint)
+
+  return {
+    name: 'hybridAuth',
+    onRequest(ctx) {
+      if (clock() < keyBlockedUntil && mayFallBack(ctx.operation)) {
+        return payment.onRequest?.(ctx)
+      }
+      ctx.state.hybridKey = true
+      return key.onRequest?.(ctx)
+    },
+    async onResponse(response, ctx) {
+      if (!ctx.state.hybridKey) return payment.onResponse?.(response, ctx)
+      if (!onStatus.includes(response.status) || !mayFallBack(ctx.operation)) return
+      if (fallback.shouldFallback && !(await fallback.shouldFallback(ctx.operation, response))) return
+
+      delete ctx.state.hybridKey
+      // Copy rather than mutate: the keyed request's headers were already sent
+      const { Authorization: _key, ...headers } = ctx.request.headers
+      ctx.request = { ...ctx.request, headers }
+      if (response.status === 402) return payment.onResponse?.(response, ctx)
+
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'))
+      keyBlockedUntil = clock() + (retryAfter ?? fallback.cooldownMs ?? HYBRID_KEY_COOLDOWN_MS)
+
+      const pending = payment.onRequest?.(ctx)
+      if (pending) await pending
+      const unpaid = await ctx.fetch(ctx.request)
+      return (await payment.onResponse?.(unpaid, ctx)) ?? unpaid
+    },
+  }
+}
@@ -0,0 +1,45 @@
+import type { CollectOptions, PageIterator } from './types'
+
+/** Default page size for `iterateEvents` / `iterateSearch` */
+export const DEFAULT_PAGE_SIZE = 25
+
+/** One fetched page: its items and whether the server has more after it */
+export interface Page<T> {
+  items: T[]
+  hasMore: boolean
+}
+
+/**
+ * Build a `PageIterator` over an offset-paginated endpoint. Pages are fetched
+ * on demand; the abort reason is thrown if `signal` fires between pages.
+ */
+export function paginate<T>(
+  fetchPage: (offset: number, limit: number) => Promise<Page<T>>,
+  pageSize: number = DEFAULT_PAGE_SIZE,
+  signal?: AbortSignal,
+): PageIterator<T> {
+  async function* iterate(): AsyncGenerator<T> {
+    let offset = 0
+    while (true) {
+      if (signal?.aborted) throw signal.reason ?? new Error('Request aborted')
+      const { items, hasMore } = await fetchPage(offset, pageSize)
+      yield* items
+      if (!hasMore || items.length === 0) return
+      offset += items.length
+    }
+  }
+
+  return {
+    [Symbol.asyncIterator]: iterate,
+    async collect(options?: CollectOptions): Promise<T[]> {
+      const max = options?.max ?? Infinity
+      const items: T[] = []
+      if (max <= 0) return items
+      for await (const item of iterate()) {
+        items.push(item)
+        if (items.length >= max) break
+      }
+      return items
+    },
+  }
+}
@@ -0,0 +1,102 @@
+import { PaymentPolicyError } from './errors'
+import type {
+  Operation,
+  PaymentPolicy,
+  PaymentRequirement,
+  ResourceInfo,
+} from './types'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+interface Spend {
+  at: number
+  asset: string
+  amount: bigint
+}
+
+function includesAddress(list: string[], value: string): boolean {
+  const needle = value.toLowerCase()
+  return list.some((entry) => entry.toLowerCase() === needle)
+}
+
+/**
+ * Enforces a `PaymentPolicy` for one client. `authorize` either throws
+ * `PaymentPolicyError` or reserves the amount against the rolling budgets and
+ * returns a `release` callback for when signing fails.
+ */
+export class PaymentPolicyGuard {
+  private spends: Spend[] = []
+
+  constructor(
+    private readonly policy: PaymentPolicy,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  async authorize(
+    requirement: PaymentRequirement,
+    resource: ResourceInfo,
+    operation: Operation,
+  ): Promise<() => void> {
+    const { policy } = this
+    const amount = BigInt(requirement.amount)
+    const refuse = (reason: PaymentPolicyError['reason'], message: string) =>
+      new PaymentPolicyError(`Payment refused: ${message}`, reason, requirement)
+
+    if (policy.allowedNetworks && !policy.allowedNetworks.includes(requirement.network)) {
+      throw refuse('network', `network ${requirement.network} is not allowed`)
+    }
+    if (policy.allowedAssets && !includesAddress(policy.allowedAssets, requirement.asset)) {
+      throw refuse('asset', `asset ${requirement.asset} is not allowed`)
+    }
+    if (policy.allowedPayTo && !includesAddress(policy.allowedPayTo, requirement.payTo)) {
+      throw refuse('payee', `payee ${requirement.payTo} is not allowed`)
+    }
+    if (policy.maxAmountPerRequest != null && amount > BigInt(policy.maxAmountPerRequest)) {
+      throw refuse('max_amount', `amount ${amount} exceeds the per-request maximum of ${policy.maxAmountPerRequest}`)
+    }
+
+    if (policy.beforeSign) {
+      const allowed = await policy.beforeSign({
+        requirement,
+        resource,
+        operation,
+        spent: this.spent(requirement.asset),
+      })
+      if (allowed === false) throw refuse('vetoed', 'vetoed by beforeSign')
+    }
+
+    // Checked after the async veto so concurrent payments cannot both fit
+    // into the same remaining budget
+    const spent = this.spent(requirement.asset)
+    const { perHour, perDay } = policy.budget ?? {}
+    if (perHour != null && spent.hour + amount > BigInt(perHour)) {
+      throw refuse('budget', `hourly budget of ${perHour} would be exceeded (spent ${spent.hour})`)
+    }
+    if (perDay != null && spent.day + amount > BigInt(perDay)) {
+      throw refuse('budget', `daily budget of ${perDay} would be exceeded (spent ${spent.day})`)
+    }
+
+    const spend: Spend = { at: this.now(), asset: requirement.asset.toLowerCase(), amount }
+    this.spends.push(spend)
+    return () => {
+      this.spends = this.spends.filter((entry) => entry !== spend)
+    }
+  }
+
+  /** Amount reserved for `asset` in the trailing hour and day */
+  spent(asset: string): { hour: bigint; day: bigint } {
+    const now = this.now()
+    this.spends = this.spends.filter((entry) => now - entry.at < DAY_MS)
+
+    const key = asset.toLowerCase()
+    let hour = BigInt(0)
+    let day = BigInt(0)
+    for (const entry of this.spends) {
+      if (entry.asset !== key) continue
+      day += entry.amount
+      if (now - entry.at < HOUR_MS) hour += entry.amount
+    }
+    return { hour, day }
+  }
+}
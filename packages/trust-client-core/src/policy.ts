@@ -0,0 +1,197 @@
+import { TrustPolicyError } from './errors'
+import type {
+  FiredRule,
+  PolicyCondition,
+  PolicyDecision,
+  PolicyEvidence,
+  PolicyInput,
+  PolicyOperator,
+  PolicyRule,
+  Signal,
+  SignalFilter,
+  TrustDecision,
+  TrustPolicy,
+} from './types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DECISIONS: TrustDecision[] = ['allow', 'review', 'limit']
+const OPERATORS: PolicyOperator[] = ['eq', 'neq', 'lt', 'lte', 'gt', 'gte', 'in', 'notIn', 'contains', 'exists']
+const COUNT_OPERATORS = ['eq', 'lt', 'lte', 'gt', 'gte']
+const FACT_ROOTS = ['score', 'evaluation']
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function fail(path: string, message: string): never {
+  throw new TrustPolicyError(`Invalid trust policy at ${path || '(root)'}: ${message}`, path)
+}
+
+function checkCondition(condition: unknown, path: string): void {
+  if (!isRecord(condition)) fail(path, 'expected a condition object')
+
+  if ('all' in condition || 'any' in condition) {
+    const key = 'all' in condition ? 'all' : 'any'
+    const items = condition[key]
+    if (!Array.isArray(items) || !items.length) fail(`${path}.${key}`, 'expected a non-empty array')
+    items.forEach((item, i) => checkCondition(item, `${path}.${key}.${i}`))
+  } else if ('not' in condition) {
+    checkCondition(condition.not, `${path}.not`)
+  } else if ('fact' in condition) {
+    const { fact, op } = condition
+    if (typeof fact !== 'string' || !FACT_ROOTS.includes(fact.split('.')[0])) {
+      fail(`${path}.fact`, `expected a path under ${FACT_ROOTS.join(' or ')}, got ${JSON.stringify(fact)}`)
+    }
+    if (!OPERATORS.includes(op as PolicyOperator)) fail(`${path}.op`, `unknown operator ${JSON.stringify(op)}`)
+    if ((op === 'in' || op === 'notIn') && !Array.isArray(condition.value)) fail(`${path}.value`, `${op} needs an array`)
+  } else if ('signals' in condition) {
+    if (!isRecord(condition.signals)) fail(`${path}.signals`, 'expected a signal filter object')
+    const count = condition.count
+    if (count !== undefined && (!isRecord(count) || !COUNT_OPERATORS.includes(count.op as string) || typeof count.value !== 'number')) {
+      fail(`${path}.count`, 'expected { op, value } with a numeric value')
+    }
+  } else {
+    fail(path, 'expected one of all, any, not, fact, signals')
+  }
+}
+
+/**
+ * Check that `value` is a well-formed `TrustPolicy` (e.g. one loaded from
+ * JSON) and return it typed. Throws `TrustPolicyError` with the path of the
+ * first problem.
+ */
+export function validatePolicy(value: unknown): TrustPolicy {
+  if (!isRecord(value)) fail('', 'expected an object')
+  if (value.version !== 1) fail('version', `unsupported version ${JSON.stringify(value.version)}`)
+  if (typeof value.name !== 'string') fail('name', 'expected a string')
+  if (!DECISIONS.includes(value.default as TrustDecision)) fail('default', `expected one of ${DECISIONS.join(', ')}`)
+  if (!Array.isArray(value.rules)) fail('rules', 'expected an array')
+
+  const ids = new Set<string>()
+  value.rules.forEach((rule: unknown, i: number) => {
+    const path = `rules.${i}`
+    if (!isRecord(rule)) fail(path, 'expected a rule object')
+    if (typeof rule.id !== 'string' || !rule.id) fail(`${path}.id`, 'expected a non-empty string')
+    if (ids.has(rule.id)) fail(`${path}.id`, `duplicate rule id ${JSON.stringify(rule.id)}`)
+    ids.add(rule.id)
+    if (!DECISIONS.includes(rule.then as TrustDecision)) fail(`${path}.then`, `expected one of ${DECISIONS.join(', ')}`)
+    checkCondition(rule.when, `${path}.when`)
+  })
+
+  return value as unknown as TrustPolicy
+}
+
+function readFact(input: PolicyInput, fact: string): unknown {
+  let value: unknown = input
+  for (const key of fact.split('.')) {
+    if (!isRecord(value)) return undefined
+    value = value[key]
+  }
+  return value
+}
+
+function compare(actual: unknown, op: PolicyOperator, expected: unknown): boolean {
+  switch (op) {
+    case 'exists':
+      return (actual !== undefined && actual !== null) === (expected ?? true)
+    case 'eq':
+      return actual === expected
+    case 'neq':
+      return actual !== expected
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual)
+    case 'notIn':
+      return Array.isArray(expected) && !expected.includes(actual)
+    case 'contains':
+      return Array.isArray(actual) && actual.includes(expected)
+    default: {
+      if (typeof actual !== 'number' || typeof expected !== 'number') return false
+      if (op === 'lt') return actual < expected
+      if (op === 'lte') return actual <= expected
+      if (op === 'gt') return actual > expected
+      return actual >= expected
+    }
+  }
+}
+
+const asList = <T>(value: T | T[] | undefined): T[] | undefined =>
+  value === undefined ? undefined : Array.isArray(value) ? value : [value]
+
+function matchesSignal(signal: Signal, filter: SignalFilter, now: number): boolean {
+  const severities = asList(filter.severity)
+  const kinds = asList(filter.signalKind)
+  if (severities && !severities.includes(signal.severity)) return false
+  if (kinds && !kinds.includes(signal.signalKind)) return false
+  if (filter.open !== undefined && (signal.resolvedAt === null) !== filter.open) return false
+  if (filter.withinDays !== undefined && now - Date.parse(signal.triggeredAt) > filter.withinDays * DAY_MS) {
+    return false
+  }
+  return true
+}
+
+/** Evaluate one condition, recording every fact and signal it read into `evidence` */
+function holds(condition: PolicyCondition, input: PolicyInput, evidence: PolicyEvidence, now: number): boolean {
+  if ('all' in condition) return condition.all.every((item) => holds(item, input, evidence, now))
+  if ('any' in condition) return condition.any.some((item) => holds(item, input, evidence, now))
+  if ('not' in condition) return !holds(condition.not, input, evidence, now)
+
+  if ('fact' in condition) {
+    const actual = readFact(input, condition.fact)
+    evidence.facts[condition.fact] = actual
+    return compare(actual, condition.op, condition.value)
+  }
+
+  const matched = (input.signals ?? []).filter((signal) => matchesSignal(signal, condition.signals, now))
+  for (const signal of matched) {
+    if (!evidence.signals.includes(signal.id)) evidence.signals.push(signal.id)
+  }
+  const count = condition.count ?? { op: 'gte', value: 1 }
+  return compare(matched.length, count.op, count.value)
+}
+
+/**
+ * Apply `policy` to the facts in `input`. Every rule is checked so the
+ * result lists all that fired; the first fired rule (in policy order)
+ * decides, otherwise `policy.default` applies. Pure and synchronous: fetch
+ * the inputs yourself or use `TrustClient.decide`.
+ */
+export function evaluatePolicy(
+  policy: TrustPolicy,
+  input: PolicyInput,
+  now: number = Date.now(),
+): PolicyDecision {
+  const fired: FiredRule[] = []
+  for (const rule of policy.rules) {
+    const evidence: PolicyEvidence = { facts: {}, signals: [] }
+    if (holds(rule.when, input, evidence, now)) {
+      fired.push({
+        id: rule.id,
+        ...(rule.description ? { description: rule.description } : {}),
+        decision: rule.then,
+        evidence,
+      })
+    }
+  }
+
+  return {
+    decision: fired[0]?.decision ?? policy.default,
+    decidedBy: fired[0]?.id ?? null,
+    fired,
+    policy: { name: policy.name, version: policy.version },
+  }
+}
+
+function collectNeeds(condition: PolicyCondition, needs: Set<keyof PolicyInput>): void {
+  if ('all' in condition) condition.all.forEach((item) => collectNeeds(item, needs))
+  else if ('any' in condition) condition.any.forEach((item) => collectNeeds(item, needs))
+  else if ('not' in condition) collectNeeds(condition.not, needs)
+  else if ('fact' in condition) needs.add(condition.fact.split('.')[0] as keyof PolicyInput)
+  else needs.add('signals')
+}
+
+/** Which inputs `policy` reads, so callers fetch only those */
+export function policyInputs(policy: TrustPolicy): Set<keyof PolicyInput> {
+  const needs = new Set<keyof PolicyInput>()
+  policy.rules.forEach((rule: PolicyRule) => collectNeeds(rule.when, needs))
+  return needs
+}
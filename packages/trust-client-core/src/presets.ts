@@ -0,0 +1,137 @@
+import { PresetError } from './errors'
+import type {
+  BulkRequest,
+  CustomPreset,
+  EvaluateOptions,
+  EvaluatePreset,
+  Evaluation,
+  EvidenceThreshold,
+  NumericEvidenceField,
+  ThresholdBreach,
+} from './types'
+
+const SERVER_PRESETS: EvaluatePreset[] = ['default_safety', 'agent_to_agent', 'defi_counterparty']
+const EVIDENCE_FIELDS: NumericEvidenceField[] = [
+  'score',
+  'feedbackCount',
+  'positiveRatio',
+  'openIncidents',
+  'lastActivityDays',
+  'ageDays',
+]
+const ACTION_RANK: Record<Evaluation['recommended_action'], number> = { allow: 0, review: 1, limit: 2 }
+
+/** Request body fields for `/trust/evaluate` */
+export type EvaluateParams = NonNullable<BulkRequest['evaluate']>
+
+function checkThreshold(name: string, threshold: EvidenceThreshold, index: number): void {
+  const where = `Preset "${name}" threshold ${index}`
+  const path = `thresholds.${index}`
+  if (!EVIDENCE_FIELDS.includes(threshold.field)) {
+    throw new PresetError(`${where}: unknown evidence field "${threshold.field}"`, name, `${path}.field`)
+  }
+  if (threshold.min === undefined && threshold.max === undefined) {
+    throw new PresetError(`${where}: needs min or max`, name, path)
+  }
+  if (threshold.action !== 'review' && threshold.action !== 'limit') {
+    throw new PresetError(`${where}: action must be review or limit`, name, `${path}.action`)
+  }
+}
+
+/** Custom evaluation presets known to one client */
+export class PresetRegistry {
+  private readonly presets = new Map<string, CustomPreset>()
+
+  constructor(presets: Record<string, CustomPreset> = {}) {
+    for (const [name, preset] of Object.entries(presets)) this.register(name, preset)
+  }
+
+  /** Add or replace `name`; throws `PresetError` on a server preset name, unknown base or malformed threshold */
+  register(name: string, preset: CustomPreset): this {
+    if (SERVER_PRESETS.includes(name as EvaluatePreset)) {
+      throw new PresetError(`Preset "${name}" is a server preset and cannot be redefined`, name, '')
+    }
+    if (!SERVER_PRESETS.includes(preset.base)) {
+      throw new PresetError(
+        `Preset "${name}" has unknown base "${preset.base}" (expected ${SERVER_PRESETS.join(', ')})`,
+        name,
+        'base',
+      )
+    }
+    preset.thresholds?.forEach((threshold, i) => checkThreshold(name, threshold, i))
+    this.presets.set(name, preset)
+    return this
+  }
+
+  get(name: string): CustomPreset | undefined {
+    return this.presets.get(name)
+  }
+
+  /**
+   * Server request fields for `options`. Per-call `sensitivity`/`objective`
+   * override the preset's; names that are not registered go to the server
+   * unchanged.
+   */
+  params(options: EvaluateOptions): EvaluateParams {
+    const preset = this.presets.get(options.preset)
+    const context = preset?.context !== undefined
+      ? preset.context.replace('{context}', options.context ?? '').trim()
+      : options.context
+    const sensitivity = options.sensitivity ?? preset?.sensitivity
+    const objective = options.objective ?? preset?.objective
+    return {
+      preset: preset?.base ?? options.preset,
+      ...(context ? { context } : {}),
+      ...(sensitivity ? { sensitivity } : {}),
+      ...(objective ? { objective } : {}),
+    }
+  }
+}
+
+function breachOf(threshold: EvidenceThreshold, value: number): ThresholdBreach | undefined {
+  const below = threshold.min !== undefined && value < threshold.min
+  const above = threshold.max !== undefined && value > threshold.max
+  if (!below && !above) return undefined
+  return {
+    field: threshold.field,
+    value,
+    ...(threshold.min !== undefined ? { min: threshold.min } : {}),
+    ...(threshold.max !== undefined ? { max: threshold.max } : {}),
+    action: threshold.action,
+    flag: threshold.flag ?? `${threshold.field}_out_of_range`,
+  }
+}
+
+/**
+ * Post-process a server evaluation for custom preset `name`: relabel it,
+ * check the thresholds against its evidence and tighten
+ * `recommended_action` to the strictest breach. Returns a new object; the
+ * (possibly cached) input is not modified.
+ */
+export function applyPreset(evaluation: Evaluation, name: string, preset: CustomPreset): Evaluation {
+  const breaches = (preset.thresholds ?? [])
+    .map((threshold) => breachOf(threshold, evaluation.evidence[threshold.field]))
+    .filter((breach): breach is ThresholdBreach => breach !== undefined)
+
+  let action = evaluation.recommended_action
+  for (const breach of breaches) {
+    if (ACTION_RANK[breach.action] > ACTION_RANK[action]) action = breach.action
+  }
+  const flags = [...evaluation.flags]
+  for (const breach of breaches) {
+    if (!flags.includes(breach.flag)) flags.push(breach.flag)
+  }
+  const notes = breaches.map((b) =>
+    `${b.field} ${b.value} is ${b.min !== undefined && b.value < b.min ? `below ${b.min}` : `above ${b.max}`} (${b.action})`,
+  )
+
+  return {
+    ...evaluation,
+    preset: name,
+    basePreset: preset.base,
+    recommended_action: action,
+    flags,
+    rationale: notes.length ? `${evaluation.rationale} Preset ${name}: ${notes.join('; ')}.` : evaluation.rationale,
+    breaches,
+  }
+}
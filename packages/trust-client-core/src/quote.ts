@@ -0,0 +1,71 @@
+import { KNOWN_ASSET_DECIMALS } from './constants'
+import { PaymentRequiredError } from './errors'
+import { selectRequirement } from './selection'
+import { isSupportedRequirement } from './x402'
+import type {
+  Operation,
+  PaymentRequiredBody,
+  PaymentRequirement,
+  PaymentScheme,
+  PriceQuote,
+  QuotableMethod,
+  QuoteOption,
+  RequirementStrategy,
+} from './types'
+
+/** Format an atomic amount with `decimals` places, trimming trailing zeros */
+export function formatAmount(atomic: string, decimals: number): string {
+  const value = BigInt(atomic)
+  const negative = value < BigInt(0)
+  const digits = (negative ? -value : value).toString().padStart(decimals + 1, '0')
+  const whole = digits.slice(0, digits.length - decimals)
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '')
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`
+}
+
+function assetDecimals(requirement: PaymentRequirement): number | null {
+  const fromExtra = Number((requirement.extra as Record<string, unknown> | undefined)?.decimals)
+  if (Number.isInteger(fromExtra) && fromExtra >= 0) return fromExtra
+  return KNOWN_ASSET_DECIMALS[requirement.asset.toLowerCase()] ?? null
+}
+
+function toQuoteOption(requirement: PaymentRequirement, schemes?: PaymentScheme[]): QuoteOption {
+  const decimals = assetDecimals(requirement)
+  return {
+    amount: decimals == null ? null : formatAmount(requirement.amount, decimals),
+    atomicAmount: requirement.amount,
+    decimals,
+    asset: requirement.asset,
+    assetName: requirement.extra?.name ?? '',
+    network: requirement.network,
+    payTo: requirement.payTo,
+    maxTimeoutSeconds: requirement.maxTimeoutSeconds,
+    supported: isSupportedRequirement(requirement, schemes),
+    requirement,
+  }
+}
+
+/** Normalize a decoded 402 (or its absence, for a free call) into a `PriceQuote` */
+export async function buildQuote(
+  method: QuotableMethod,
+  paymentRequired: PaymentRequiredBody | undefined,
+  strategy: RequirementStrategy | undefined,
+  operation: Operation | undefined,
+  schemes?: PaymentScheme[],
+): Promise<PriceQuote> {
+  if (!paymentRequired || !operation) {
+    return { method, paymentRequired: false, options: [], selected: null, resource: null }
+  }
+
+  const options = paymentRequired.accepts.map((requirement) => toQuoteOption(requirement, schemes))
+  let selected: QuoteOption | null = null
+  try {
+    const requirement = await selectRequirement(paymentRequired, strategy, operation, schemes)
+    selected = options[paymentRequired.accepts.indexOf(requirement)] ?? toQuoteOption(requirement, schemes)
+  } catch (error) {
+    // Nothing this client could pay; the options are still reported
+    if (!(error instanceof PaymentRequiredError)) throw error
+  }
+
+  return { method, paymentRequired: true, options, selected, resource: paymentRequired.resource }
+}
@@ -0,0 +1,77 @@
+import type { RetryOptions } from './types'
+
+/** Fully resolved retry policy — every field of `RetryOptions` filled in */
+export type RetryPolicy = Required<RetryOptions>
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 250,
+  maxDelayMs: 10_000,
+  jitter: true,
+  retryOnStatus: [429, 502, 503, 504],
+  retryOnNetworkError: true,
+  respectRetryAfter: true,
+}
+
+/** Policy used when retries are not configured: a single attempt */
+const NO_RETRY_POLICY: RetryPolicy = { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 }
+
+/**
+ * Merge the client-level retry config with a per-call override.
+ *
+ * Retries are opt-in: without a client or per-call `retry` each request is
+ * attempted once. `false` on either level disables retries for that scope.
+ */
+export function resolveRetryPolicy(
+  clientRetry: RetryOptions | false | undefined,
+  callRetry: RetryOptions | false | undefined,
+): RetryPolicy {
+  if (callRetry === false) return NO_RETRY_POLICY
+  if (clientRetry == null || clientRetry === false) {
+    return callRetry ? { ...DEFAULT_RETRY_POLICY, ...callRetry } : NO_RETRY_POLICY
+  }
+  return { ...DEFAULT_RETRY_POLICY, ...clientRetry, ...callRetry }
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP-date) into milliseconds.
+ * Returns `undefined` when the header is absent or unparseable.
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) return undefined
+  const trimmed = value.trim()
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000)
+  }
+  const date = Date.parse(trimmed)
+  if (Number.isNaN(date)) return undefined
+  return Math.max(0, date - now)
+}
+
+/**
+ * Delay before the next attempt: exponential backoff (`baseDelayMs * 2^(n-1)`)
+ * capped at `maxDelayMs`, with optional full jitter.
+ */
+export function computeBackoff(policy: RetryPolicy, attempt: number): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1))
+  return policy.jitter ? Math.floor(Math.random() * exponential) : exponential
+}
+
+/** Resolve after `ms`, rejecting early with the abort reason if `signal` fires */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new Error('Request aborted'))
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason ?? new Error('Request aborted'))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
@@ -0,0 +1,309 @@
+import { SchemaMismatchError } from './errors'
+import type {
+  AgentEvent,
+  AgentProfile,
+  AgentProfileResponse,
+  EvaluateResponse,
+  Evaluation,
+  EvaluationEvidence,
+  EventsResponse,
+  PaymentRequiredBody,
+  PaymentRequirement,
+  ResourceInfo,
+  Schema,
+  SchemaIssue,
+  ScoreBreakdownEntry,
+  ScoreResponse,
+  SearchAgent,
+  SearchResponse,
+  Signal,
+  SignalsResponse,
+  ThresholdBreach,
+  TrustScore,
+} from './types'
+
+// Objects accept unknown extra keys so additive server changes never fail
+// validation; missing keys, wrong types and new enum values do.
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'string') return JSON.stringify(value)
+  return typeof value
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`
+  return path ? `${path}.${key}` : key
+}
+
+/** Build the error thrown for `issue`; `status` is the HTTP status when from a response */
+export function schemaMismatch(issue: SchemaIssue, body: unknown, status?: number): SchemaMismatchError {
+  return new SchemaMismatchError(
+    `Response does not match schema at ${issue.path || '(root)'}: expected ${issue.expected}, received ${issue.received}`,
+    issue.path,
+    issue.expected,
+    issue.received,
+    body,
+    status,
+  )
+}
+
+function schema<T>(check: (value: unknown, path: string) => SchemaIssue | null): Schema<T> {
+  return {
+    check: (value, path = '') => check(value, path),
+    parse(value) {
+      const issue = check(value, '')
+      if (issue) throw schemaMismatch(issue, value)
+      return value as T
+    },
+    is: (value): value is T => check(value, '') === null,
+  }
+}
+
+function primitive<T>(type: 'string' | 'number' | 'boolean'): Schema<T> {
+  return schema((value, path) =>
+    typeof value === type && !(type === 'number' && !Number.isFinite(value))
+      ? null
+      : { path, expected: type, received: describeValue(value) },
+  )
+}
+
+const string = primitive<string>('string')
+const number = primitive<number>('number')
+const boolean = primitive<boolean>('boolean')
+
+function oneOf<T extends string>(...values: T[]): Schema<T> {
+  const expected = values.map((v) => JSON.stringify(v)).join(' | ')
+  return schema((value, path) =>
+    values.includes(value as T) ? null : { path, expected, received: describeValue(value) },
+  )
+}
+
+function nullable<T>(inner: Schema<T>): Schema<T | null> {
+  return schema((value, path) => {
+    if (value === null) return null
+    const issue = inner.check(value, path)
+    return issue && { ...issue, expected: `${issue.expected} | null` }
+  })
+}
+
+/** Optional field: may be missing or `undefined` */
+function optional<T>(inner: Schema<T>): Schema<T | undefined> {
+  return schema((value, path) => (value === undefined ? null : inner.check(value, path)))
+}
+
+function array<T>(item: Schema<T>): Schema<T[]> {
+  return schema((value, path) => {
+    if (!Array.isArray(value)) return { path, expected: 'array', received: describeValue(value) }
+    for (let i = 0; i < value.length; i++) {
+      const issue = item.check(value[i], join(path, i))
+      if (issue) return issue
+    }
+    return null
+  })
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const record: Schema<Record<string, unknown>> = schema((value, path) =>
+  isPlainObject(value) ? null : { path, expected: 'object', received: describeValue(value) },
+)
+
+function object<T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+  const entries = Object.entries(shape) as Array<[string, Schema<unknown>]>
+  return schema((value, path) => {
+    if (!isPlainObject(value)) return { path, expected: 'object', received: describeValue(value) }
+    for (const [key, field] of entries) {
+      const fieldPath = join(path, key)
+      if (!(key in value)) {
+        // Only optional fields accept the missing value
+        if (field.check(undefined, fieldPath)) return { path: fieldPath, expected: 'present', received: 'missing' }
+        continue
+      }
+      const issue = field.check(value[key], fieldPath)
+      if (issue) return issue
+    }
+    return null
+  })
+}
+
+const confidence = oneOf('low', 'medium', 'high')
+
+const agentProfile = object<AgentProfile>({
+  chainId: number,
+  agentId: number,
+  owner: string,
+  uri: nullable(string),
+  metadata: nullable(record),
+  feedbackCount: number,
+  positiveCount: number,
+  negativeCount: number,
+  firstSeen: string,
+  lastSeen: string,
+  claimed: boolean,
+  claimedBy: nullable(string),
+  displayName: nullable(string),
+})
+
+const scoreBreakdownEntry = object<ScoreBreakdownEntry>({ value: number, weight: number })
+
+const trustScore = object<TrustScore>({
+  value: number,
+  confidence,
+  breakdown: object<TrustScore['breakdown']>({
+    positiveRatio: scoreBreakdownEntry,
+    ageScore: scoreBreakdownEntry,
+    activityScore: scoreBreakdownEntry,
+    incidentPenalty: scoreBreakdownEntry,
+  }),
+  stats: object<TrustScore['stats']>({
+    feedbackCount: number,
+    positiveCount: number,
+    negativeCount: number,
+    openIncidents: number,
+  }),
+  updatedAt: string,
+})
+
+const signal = object<Signal>({
+  id: string,
+  signalKind: string,
+  severity: oneOf('info', 'warning', 'critical'),
+  title: string,
+  description: string,
+  whyItMatters: string,
+  sourceTxHash: nullable(string),
+  triggeredAt: string,
+  resolvedAt: nullable(string),
+})
+
+const agentEvent = object<AgentEvent>({
+  id: number,
+  kind: string,
+  blockNumber: number,
+  txHash: string,
+  logIndex: number,
+  data: record,
+  eventTimestamp: nullable(string),
+  createdAt: string,
+})
+
+const searchAgent = object<SearchAgent>({
+  chainId: number,
+  agentId: number,
+  owner: string,
+  uri: nullable(string),
+  feedbackCount: number,
+  positiveCount: number,
+  negativeCount: number,
+})
+
+const evaluationEvidence = object<EvaluationEvidence>({
+  score: number,
+  score_confidence: confidence,
+  feedbackCount: number,
+  positiveRatio: number,
+  openIncidents: number,
+  lastActivityDays: number,
+  ageDays: number,
+})
+
+// Set by custom presets on the client, so only present in cached or persisted evaluations
+const thresholdBreach = object<ThresholdBreach>({
+  field: oneOf('score', 'feedbackCount', 'positiveRatio', 'openIncidents', 'lastActivityDays', 'ageDays'),
+  value: number,
+  min: optional(number),
+  max: optional(number),
+  action: oneOf('review', 'limit'),
+  flag: string,
+})
+
+const evaluation = object<Evaluation>({
+  trust_band: oneOf('high', 'medium', 'low', 'insufficient_signal'),
+  status: oneOf('active', 'stale', 'dormant', 'anomalous'),
+  signal_strength: oneOf('strong', 'moderate', 'weak', 'none'),
+  risk_level: oneOf('minimal', 'moderate', 'elevated', 'critical'),
+  decision_confidence: confidence,
+  recommended_action: oneOf('allow', 'review', 'limit'),
+  flags: array(string),
+  rationale: string,
+  evidence: evaluationEvidence,
+  preset: string,
+  evaluatedAt: string,
+  chainId: number,
+  agentId: number,
+  basePreset: optional(oneOf('default_safety', 'agent_to_agent', 'defi_counterparty')),
+  breaches: optional(array(thresholdBreach)),
+})
+
+const paymentRequirement = object<PaymentRequirement>({
+  scheme: string,
+  network: string,
+  amount: string,
+  asset: string,
+  payTo: string,
+  maxTimeoutSeconds: number,
+  extra: object<PaymentRequirement['extra']>({
+    assetTransferMethod: string,
+    name: string,
+    version: string,
+    spender: optional(string),
+  }),
+})
+
+const resourceInfo = object<ResourceInfo>({ url: string, description: string, mimeType: string })
+
+/**
+ * Runtime schemas for every API response and x402 wire type. The client uses
+ * them when `validate` is set; they are exported so cached or persisted
+ * payloads can be checked the same way:
+ *
+ * ```ts
+ * const score = schemas.ScoreResponse.parse(JSON.parse(saved))
+ * ```
+ */
+export const schemas = {
+  AgentProfile: agentProfile,
+  AgentProfileResponse: object<AgentProfileResponse>({ agent: agentProfile }),
+  ScoreBreakdownEntry: scoreBreakdownEntry,
+  TrustScore: trustScore,
+  ScoreResponse: object<ScoreResponse>({ score: trustScore, formula: string }),
+  Signal: signal,
+  SignalsResponse: object<SignalsResponse>({ signals: array(signal), count: number }),
+  AgentEvent: agentEvent,
+  EventsResponse: object<EventsResponse>({
+    events: array(agentEvent),
+    pagination: object<EventsResponse['pagination']>({
+      total: number,
+      limit: number,
+      offset: number,
+      hasMore: boolean,
+    }),
+  }),
+  SearchAgent: searchAgent,
+  SearchResponse: object<SearchResponse>({ agents: array(searchAgent), count: number }),
+  EvaluationEvidence: evaluationEvidence,
+  Evaluation: evaluation,
+  EvaluateResponse: object<EvaluateResponse>({ evaluation }),
+  PaymentRequirement: paymentRequirement,
+  ResourceInfo: resourceInfo,
+  PaymentRequiredBody: object<PaymentRequiredBody>({
+    x402Version: number,
+    accepts: array(paymentRequirement),
+    resource: resourceInfo,
+    error: string,
+  }),
+} as const
+
+/** Response schema for each client method; bulk endpoints are not validated */
+export const RESPONSE_SCHEMAS: Record<string, Schema<unknown> | undefined> = {
+  getAgent: schemas.AgentProfileResponse,
+  getScore: schemas.ScoreResponse,
+  getSignals: schemas.SignalsResponse,
+  getEvents: schemas.EventsResponse,
+  search: schemas.SearchResponse,
+  evaluate: schemas.EvaluateResponse,
+}
@@ -0,0 +1,168 @@
+import { EIP3009_TYPES, PERMIT2_ADDRESS, PERMIT2_WITNESS_TYPES } from './constants'
+import { PaymentRequiredError } from './errors'
+import type {
+  PaymentAuthorization,
+  PaymentRequirement,
+  PaymentScheme,
+  PaymentSigningContext,
+  SchemePayload,
+} from './types'
+
+/** Transfer method assumed when a requirement's `extra` names none */
+const DEFAULT_TRANSFER_METHOD = 'eip3009'
+
+function schemeKey(scheme: string, assetTransferMethod: string): string {
+  return `${scheme}/${assetTransferMethod}`
+}
+
+/** Parse chain ID from CAIP-2 network string (e.g., "eip155:42220" → 42220) */
+function parseChainId(network: string): number {
+  const parts = network.split(':')
+  if (parts.length !== 2 || parts[0] !== 'eip155') {
+    throw new PaymentRequiredError(`Unsupported network format: ${network}`)
+  }
+  return parseInt(parts[1], 10)
+}
+
+const isEvmNetwork = (requirement: PaymentRequirement) => /^eip155:\d+$/.test(requirement.network)
+
+/** EIP-3009 `transferWithAuthorization`, signed against the token's own domain */
+export const eip3009Scheme: PaymentScheme = {
+  scheme: 'exact',
+  assetTransferMethod: 'eip3009',
+  supports: isEvmNetwork,
+  async sign({ account, requirement, nonce, validAfter, validBefore }: PaymentSigningContext): Promise<SchemePayload> {
+    // Pitfall #7: domain from 402 response, never hardcoded
+    const domain = {
+      name: requirement.extra.name,
+      version: requirement.extra.version,
+      chainId: parseChainId(requirement.network),
+      verifyingContract: requirement.asset as `0x${string}`,
+    }
+
+    const signature = await account.signTypedData({
+      domain,
+      types: EIP3009_TYPES,
+      primaryType: 'TransferWithAuthorization',
+      message: {
+        from: account.address,
+        to: requirement.payTo as `0x${string}`,
+        value: BigInt(requirement.amount), // Pitfall #4: string → BigInt for signing
+        validAfter: BigInt(validAfter),
+        validBefore: BigInt(validBefore),
+        nonce,
+      },
+    })
+
+    // Pitfall #4: strings in wire format
+    const authorization: PaymentAuthorization = {
+      from: account.address,
+      to: requirement.payTo,
+      value: requirement.amount,
+      validAfter: String(validAfter),
+      validBefore: String(validBefore),
+      nonce,
+    }
+    return { payload: { signature, authorization }, signature, authorization }
+  },
+}
+
+/**
+ * Permit2 `permitWitnessTransferFrom` for tokens without EIP-3009. The payer
+ * must have approved the Permit2 contract; `extra.spender` is the contract
+ * that pulls the funds, and the witness pins the payee.
+ */
+export const permit2Scheme: PaymentScheme = {
+  scheme: 'exact',
+  assetTransferMethod: 'permit2',
+  supports: (requirement) => isEvmNetwork(requirement) && Boolean(requirement.extra?.spender),
+  async sign({ account, requirement, nonce, validAfter, validBefore }: PaymentSigningContext): Promise<SchemePayload> {
+    const domain = {
+      name: 'Permit2',
+      chainId: parseChainId(requirement.network),
+      verifyingContract: PERMIT2_ADDRESS as `0x${string}`,
+    }
+    const spender = requirement.extra.spender as string
+
+    const signature = await account.signTypedData({
+      domain,
+      types: PERMIT2_WITNESS_TYPES,
+      primaryType: 'PermitWitnessTransferFrom',
+      message: {
+        permitted: { token: requirement.asset as `0x${string}`, amount: BigInt(requirement.amount) },
+        spender: spender as `0x${string}`,
+        // Permit2 nonces are unordered bitmaps, so a random uint256 is valid
+        nonce: BigInt(nonce),
+        deadline: BigInt(validBefore),
+        witness: { to: requirement.payTo as `0x${string}`, validAfter: BigInt(validAfter) },
+      },
+    })
+
+    const permit2Authorization = {
+      from: account.address,
+      permitted: { token: requirement.asset, amount: requirement.amount },
+      spender,
+      nonce: BigInt(nonce).toString(),
+      deadline: String(validBefore),
+      witness: { to: requirement.payTo, validAfter: String(validAfter) },
+    }
+    const authorization: PaymentAuthorization = {
+      from: account.address,
+      to: requirement.payTo,
+      value: requirement.amount,
+      validAfter: String(validAfter),
+      validBefore: String(validBefore),
+      nonce,
+    }
+    return { payload: { signature, permit2Authorization }, signature, authorization }
+  },
+}
+
+/** Schemes every client can sign */
+export const DEFAULT_PAYMENT_SCHEMES: readonly PaymentScheme[] = [eip3009Scheme, permit2Scheme]
+
+/**
+ * Signing schemes keyed on `scheme/assetTransferMethod`. Later registrations
+ * replace earlier ones with the same key.
+ */
+export class PaymentSchemeRegistry {
+  private readonly schemes = new Map<string, PaymentScheme>()
+
+  constructor(schemes: readonly PaymentScheme[] = DEFAULT_PAYMENT_SCHEMES) {
+    for (const scheme of schemes) this.register(scheme)
+  }
+
+  register(scheme: PaymentScheme): this {
+    this.schemes.set(schemeKey(scheme.scheme, scheme.assetTransferMethod), scheme)
+    return this
+  }
+
+  /** The scheme that can sign `requirement`, if any */
+  find(requirement: PaymentRequirement): PaymentScheme | undefined {
+    const method = requirement.extra?.assetTransferMethod ?? DEFAULT_TRANSFER_METHOD
+    const scheme = this.schemes.get(schemeKey(requirement.scheme, method))
+    return scheme && (scheme.supports?.(requirement) ?? true) ? scheme : undefined
+  }
+
+  /** Like `find`, but throws `PaymentRequiredError` naming what is registered */
+  resolve(requirement: PaymentRequirement): PaymentScheme {
+    const scheme = this.find(requirement)
+    if (scheme) return scheme
+
+    const method = requirement.extra?.assetTransferMethod ?? DEFAULT_TRANSFER_METHOD
+    throw new PaymentRequiredError(
+      `No payment scheme can sign ${requirement.scheme}/${requirement.network}/${method} ` +
+        `(registered: ${[...this.schemes.keys()].join(', ')})`,
+      requirement,
+    )
+  }
+}
+
+const defaultRegistry = new PaymentSchemeRegistry()
+
+/** The built-in schemes overridden by `extra` (a config's `paymentSchemes`) */
+export function paymentSchemeRegistry(extra?: PaymentScheme[]): PaymentSchemeRegistry {
+  return extra?.length
+    ? new PaymentSchemeRegistry([...DEFAULT_PAYMENT_SCHEMES, ...extra])
+    : defaultRegistry
+}
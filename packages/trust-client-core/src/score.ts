@@ -0,0 +1,136 @@
+import type {
+  ScoreChanges,
+  ScoreComponent,
+  ScoreContribution,
+  ScoreFormula,
+  ScoreSimulateOptions,
+  ScoreSimulation,
+  ScoreVerification,
+  ScoreVerifyOptions,
+  TrustScore,
+} from './types'
+
+const COMPONENTS: ScoreComponent[] = ['positiveRatio', 'ageScore', 'activityScore', 'incidentPenalty']
+
+const round = (value: number) => Math.round(value * 100) / 100
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value))
+
+/** How much of its weight a component earns: penalties count inverted */
+const earned = (component: ScoreComponent, value: number) =>
+  component === 'incidentPenalty' ? 1 - value : value
+
+/**
+ * The default formula: `100 × Σ weight × value`, with `incidentPenalty`
+ * contributing `weight × (1 − value)` so a clean record earns its full weight
+ */
+export const weightedSum: ScoreFormula = (breakdown) =>
+  100 * COMPONENTS.reduce((sum, c) => sum + breakdown[c].weight * earned(c, breakdown[c].value), 0)
+
+/** Recompute a score (0-100, two decimals) from its breakdown */
+export function recomputeScore(score: TrustScore, formula: ScoreFormula = weightedSum): number {
+  return round(formula(score.breakdown))
+}
+
+/**
+ * Check that `score.value` follows from `score.breakdown`, and explain it:
+ * each component's points and the points it lost. Also flags weights that do
+ * not sum to 1, values outside 0-1 and a `positiveRatio` that disagrees with
+ * `stats`. The default formula is the oracle's weighted sum; pass `formula`
+ * for oracles that score differently.
+ */
+export function verifyScore(score: TrustScore, options: ScoreVerifyOptions = {}): ScoreVerification {
+  const tolerance = options.tolerance ?? 1
+  const { breakdown, stats } = score
+  const issues: string[] = []
+
+  const recomputed = recomputeScore(score, options.formula)
+  const difference = round(score.value - recomputed)
+  if (Math.abs(difference) > tolerance) {
+    issues.push(`Score ${score.value} differs from its breakdown (${recomputed}) by ${Math.abs(difference)} points`)
+  }
+
+  const weights = COMPONENTS.reduce((sum, c) => sum + breakdown[c].weight, 0)
+  if (Math.abs(weights - 1) > 0.001) issues.push(`Breakdown weights sum to ${round(weights)}, not 1`)
+
+  for (const c of COMPONENTS) {
+    const { value } = breakdown[c]
+    if (value < 0 || value > 1) issues.push(`${c} value ${value} is outside 0-1`)
+  }
+
+  if (stats.feedbackCount > 0) {
+    const ratio = stats.positiveCount / stats.feedbackCount
+    if (Math.abs(ratio - breakdown.positiveRatio.value) > 0.01) {
+      issues.push(
+        `positiveRatio ${breakdown.positiveRatio.value} does not match stats ` +
+          `(${stats.positiveCount}/${stats.feedbackCount} = ${round(ratio)})`,
+      )
+    }
+  }
+
+  const contributions = COMPONENTS.map((c): ScoreContribution => {
+    const { value, weight } = breakdown[c]
+    const points = round(100 * weight * earned(c, value))
+    return { component: c, value, weight, points, lost: round(100 * weight - points) }
+  })
+
+  return { consistent: issues.length === 0, reported: score.value, recomputed, difference, contributions, issues }
+}
+
+/**
+ * Recompute `score` after hypothetical changes — more feedback, incidents
+ * opened or resolved, or breakdown values set directly — to show what would
+ * move it. Feedback changes update `positiveRatio` from `stats`; incident
+ * changes scale `incidentPenalty` linearly with open incidents. `ageScore`
+ * and `activityScore` only change through `changes.breakdown`. Everything
+ * assumed is listed in `assumptions`.
+ */
+export function simulateScore(
+  score: TrustScore,
+  changes: ScoreChanges,
+  options: ScoreSimulateOptions = {},
+): ScoreSimulation {
+  const formula = options.formula ?? weightedSum
+  const breakdown = Object.fromEntries(
+    COMPONENTS.map((c) => [c, { ...score.breakdown[c] }]),
+  ) as TrustScore['breakdown']
+  const stats = { ...score.stats }
+  const assumptions: string[] = []
+
+  const positive = changes.positiveFeedback ?? 0
+  const negative = changes.negativeFeedback ?? 0
+  if (positive || negative) {
+    stats.positiveCount = Math.max(0, stats.positiveCount + positive)
+    stats.negativeCount = Math.max(0, stats.negativeCount + negative)
+    stats.feedbackCount = Math.max(0, stats.feedbackCount + positive + negative)
+    if (stats.feedbackCount > 0) breakdown.positiveRatio.value = stats.positiveCount / stats.feedbackCount
+    assumptions.push('ageScore and activityScore are kept as reported')
+  }
+
+  const open = score.stats.openIncidents
+  const resolved = Math.min(changes.resolvedIncidents ?? 0, open)
+  stats.openIncidents = open - resolved + (changes.newIncidents ?? 0)
+  if (stats.openIncidents !== open) {
+    const penalty = score.breakdown.incidentPenalty.value
+    const perIncident = options.penaltyPerIncident ?? (open > 0 ? penalty / open : undefined)
+    if (stats.openIncidents === 0) {
+      breakdown.incidentPenalty.value = 0
+      assumptions.push('incidentPenalty comes only from open incidents')
+    } else if (perIncident !== undefined) {
+      breakdown.incidentPenalty.value = clamp01(stats.openIncidents * perIncident)
+      assumptions.push(`incidentPenalty grows by ${round(perIncident)} per open incident`)
+    } else {
+      assumptions.push(
+        `incidentPenalty kept at ${penalty}: no open incidents to infer a per-incident penalty from ` +
+          '(set penaltyPerIncident)',
+      )
+    }
+  }
+
+  for (const [c, value] of Object.entries(changes.breakdown ?? {}) as Array<[ScoreComponent, number]>) {
+    breakdown[c].value = clamp01(value)
+  }
+
+  const before = round(formula(score.breakdown))
+  const after = round(formula(breakdown))
+  return { before, after, delta: round(after - before), breakdown, stats, assumptions }
+}
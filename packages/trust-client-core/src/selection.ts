@@ -0,0 +1,80 @@
+import { PaymentRequiredError } from './errors'
+import { isSupportedRequirement } from './x402'
+import type {
+  Operation,
+  PaymentRequiredBody,
+  PaymentRequirement,
+  PaymentScheme,
+  RequirementPreferences,
+  RequirementStrategy,
+} from './types'
+
+/** Position of `value` in `list` (case-insensitive), or `Infinity` when absent */
+function rank(list: string[] | undefined, value: string): number {
+  if (!list) return Infinity
+  const needle = value.toLowerCase()
+  const index = list.findIndex((entry) => entry.toLowerCase() === needle)
+  return index === -1 ? Infinity : index
+}
+
+function compareAmounts(a: PaymentRequirement, b: PaymentRequirement): number {
+  const diff = BigInt(a.amount) - BigInt(b.amount)
+  return diff < BigInt(0) ? -1 : diff > BigInt(0) ? 1 : 0
+}
+
+function byPreferences(
+  candidates: PaymentRequirement[],
+  preferences: RequirementPreferences,
+): PaymentRequirement | undefined {
+  const { networks, preferredNetworks, preferredAssets, prefer } = preferences
+  const signable = networks
+    ? candidates.filter((candidate) => rank(networks, candidate.network) !== Infinity)
+    : candidates
+
+  // Array.prototype.sort is stable, so ties keep the server's order
+  return [...signable].sort((a, b) =>
+    rank(preferredNetworks, a.network) - rank(preferredNetworks, b.network) ||
+    rank(preferredAssets, a.asset) - rank(preferredAssets, b.asset) ||
+    (prefer === 'cheapest' ? compareAmounts(a, b) : 0),
+  )[0]
+}
+
+/**
+ * Pick the `accepts` entry to pay. Entries no registered scheme (built-ins
+ * plus `schemes`) can sign are dropped before the strategy runs;
+ * `PaymentRequiredError` is thrown when nothing is left to pay.
+ */
+export async function selectRequirement(
+  paymentRequired: PaymentRequiredBody,
+  strategy: RequirementStrategy = 'first',
+  operation: Operation,
+  schemes?: PaymentScheme[],
+): Promise<PaymentRequirement> {
+  if (!paymentRequired.accepts.length) {
+    throw new PaymentRequiredError('No accepted payment methods', paymentRequired)
+  }
+
+  const candidates = paymentRequired.accepts.filter((r) => isSupportedRequirement(r, schemes))
+  if (!candidates.length) {
+    const offered = paymentRequired.accepts
+      .map((r) => `${r.scheme}/${r.network}/${r.extra?.assetTransferMethod ?? 'unknown'}`)
+      .join(', ')
+    throw new PaymentRequiredError(`No supported payment method among: ${offered}`, paymentRequired)
+  }
+
+  let selected: PaymentRequirement | undefined
+  if (typeof strategy === 'function') {
+    selected = await strategy(candidates, { resource: paymentRequired.resource, operation })
+  } else if (strategy === 'first') {
+    selected = candidates[0]
+  } else if (strategy === 'cheapest') {
+    selected = byPreferences(candidates, { prefer: 'cheapest' })
+  } else {
+    selected = byPreferences(candidates, strategy)
+  }
+
+  if (!selected) {
+    throw new PaymentRequiredError('No payment method matches selectRequirement', paymentRequired)
+  }
+  return selected
+}
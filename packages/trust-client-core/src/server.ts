@@ -0,0 +1,210 @@
+import { EIP3009_TYPES } from './constants'
+import { PaymentVerificationError } from './errors'
+import type {
+  Eip3009Payload,
+  NonceStore,
+  PaymentPayload,
+  PaymentReceipt,
+  PaymentRequiredBody,
+  PaymentRequirement,
+  PaymentVerificationFailure,
+  ResourceInfo,
+  TypedDataRecoverer,
+  VerifiedPayment,
+  VerifyPaymentOptions,
+} from './types'
+
+/** Build the 402 body advertising `accepts` for `resource` */
+export function createPaymentRequired(
+  accepts: PaymentRequirement | PaymentRequirement[],
+  resource: ResourceInfo,
+  error: string = 'missing payment header',
+): PaymentRequiredBody {
+  return { x402Version: 2, accepts: Array.isArray(accepts) ? accepts : [accepts], resource, error }
+}
+
+/** Encode a 402 body as the `PAYMENT-REQUIRED` header value (inverse of `decodePaymentRequired`) */
+export function encodePaymentRequired(body: PaymentRequiredBody): string {
+  return btoa(JSON.stringify(body))
+}
+
+/** A ready-to-send 402 carrying `body` both as JSON and in `PAYMENT-REQUIRED` */
+export function paymentRequiredResponse(body: PaymentRequiredBody): Response {
+  return new Response(JSON.stringify(body), {
+    status: 402,
+    headers: {
+      'Content-Type': 'application/json',
+      'PAYMENT-REQUIRED': encodePaymentRequired(body),
+    },
+  })
+}
+
+/** Encode a settlement receipt as the `PAYMENT-RESPONSE` header value */
+export function encodePaymentResponse(receipt: PaymentReceipt): string {
+  return btoa(JSON.stringify(receipt))
+}
+
+/** Decode an `X-PAYMENT` header; `undefined` when it is not base64 JSON of the right shape */
+export function decodePaymentHeader(header: string): PaymentPayload | undefined {
+  try {
+    const decoded = JSON.parse(atob(header)) as PaymentPayload
+    const valid =
+      typeof decoded === 'object' && decoded !== null &&
+      typeof decoded.accepted === 'object' && decoded.accepted !== null &&
+      typeof decoded.payload === 'object' && decoded.payload !== null
+    return valid ? decoded : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/** Process-local `NonceStore`; use a shared store (Redis `SET NX`, a unique index) across instances */
+export class MemoryNonceStore implements NonceStore {
+  private readonly used = new Map<string, number>()
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async claim(key: string, expiresAt: number): Promise<boolean> {
+    const now = this.now()
+    for (const [used, until] of this.used) {
+      if (until <= now) this.used.delete(used)
+    }
+    if (this.used.has(key)) return false
+    this.used.set(key, expiresAt)
+    return true
+  }
+}
+
+async function viemRecoverer(): Promise<TypedDataRecoverer> {
+  // Non-literal specifier: viem stays an optional peer dependency
+  const specifier = 'viem'
+  const viem = (await import(specifier)) as { recoverTypedDataAddress: TypedDataRecoverer }
+  return viem.recoverTypedDataAddress
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+
+function isEip3009Payload(payload: Record<string, unknown>): payload is Record<string, unknown> & Eip3009Payload {
+  const authorization = payload.authorization as Record<string, unknown> | undefined
+  return (
+    typeof payload.signature === 'string' &&
+    typeof authorization === 'object' && authorization !== null &&
+    ['from', 'to', 'nonce'].every((field) => typeof authorization[field] === 'string') &&
+    ['value', 'validAfter', 'validBefore'].every(
+      (field) => typeof authorization[field] === 'string' && /^\d+$/.test(authorization[field] as string),
+    )
+  )
+}
+
+function reject(reason: PaymentVerificationFailure, message: string, body?: unknown): never {
+  throw new PaymentVerificationError(message, reason, body)
+}
+
+/**
+ * Verify an incoming `X-PAYMENT` header against the requirement(s) this
+ * server advertised: the payment must match a requirement's scheme, network
+ * and asset, pay exactly its amount to its payee, be valid now for no longer
+ * than `maxTimeoutSeconds`, carry an EIP-712 signature by `authorization.from`
+ * and use a nonce never seen before. Throws `PaymentVerificationError` naming
+ * the failed check.
+ *
+ * Verification does not settle the payment; submit the authorization (or
+ * hand it to a facilitator) before relying on the funds.
+ */
+export async function verifyPayment(
+  header: string | null | undefined,
+  requirements: PaymentRequirement | PaymentRequirement[],
+  options: VerifyPaymentOptions,
+): Promise<VerifiedPayment> {
+  if (!header) reject('missing', 'Missing X-PAYMENT header')
+
+  const decoded = decodePaymentHeader(header)
+  if (!decoded) reject('malformed', 'X-PAYMENT is not base64-encoded JSON')
+
+  // Match on what the payer says it accepted, then check against our terms only
+  const accepted = decoded.accepted
+  const requirement = (Array.isArray(requirements) ? requirements : [requirements]).find(
+    (r) => r.scheme === accepted.scheme && r.network === accepted.network && sameAddress(r.asset, accepted.asset ?? ''),
+  )
+  if (!requirement) {
+    reject('requirement_mismatch', `No requirement for ${accepted.scheme}/${accepted.network}/${accepted.asset}`, decoded)
+  }
+
+  const method = requirement.extra?.assetTransferMethod ?? 'eip3009'
+  if (requirement.scheme !== 'exact' || method !== 'eip3009') {
+    reject('unsupported_scheme', `Cannot verify ${requirement.scheme}/${method} payments`, decoded)
+  }
+  if (!isEip3009Payload(decoded.payload)) {
+    reject('malformed', 'X-PAYMENT payload is missing the EIP-3009 authorization', decoded)
+  }
+  const { authorization, signature } = decoded.payload
+
+  if (!sameAddress(authorization.to, requirement.payTo)) {
+    reject('payee_mismatch', `Payment to ${authorization.to}, expected ${requirement.payTo}`, decoded)
+  }
+  if (authorization.value !== String(BigInt(requirement.amount))) {
+    reject('amount_mismatch', `Payment of ${authorization.value}, expected ${requirement.amount}`, decoded)
+  }
+
+  const now = Math.floor((options.clock ?? Date.now)() / 1000)
+  const tolerance = options.clockToleranceSeconds ?? 5
+  const validAfter = Number(authorization.validAfter)
+  const validBefore = Number(authorization.validBefore)
+  if (validAfter > now + tolerance) {
+    reject('not_yet_valid', `Authorization is valid from ${validAfter}, now ${now}`, decoded)
+  }
+  if (validBefore <= now - tolerance) {
+    reject('expired', `Authorization expired at ${validBefore}, now ${now}`, decoded)
+  }
+  if (requirement.maxTimeoutSeconds > 0 && validBefore - now > requirement.maxTimeoutSeconds + tolerance) {
+    reject(
+      'window_too_long',
+      `Authorization is valid for ${validBefore - now}s, more than maxTimeoutSeconds (${requirement.maxTimeoutSeconds})`,
+      decoded,
+    )
+  }
+
+  const recover = options.recoverTypedDataAddress ?? (await viemRecoverer())
+  let payer: string
+  try {
+    payer = await recover({
+      domain: {
+        name: requirement.extra.name,
+        version: requirement.extra.version,
+        chainId: Number(requirement.network.split(':')[1]),
+        verifyingContract: requirement.asset,
+      },
+      types: EIP3009_TYPES,
+      primaryType: 'TransferWithAuthorization',
+      message: {
+        from: authorization.from,
+        to: authorization.to,
+        value: BigInt(authorization.value),
+        validAfter: BigInt(authorization.validAfter),
+        validBefore: BigInt(authorization.validBefore),
+        nonce: authorization.nonce,
+      },
+      signature,
+    })
+  } catch {
+    reject('invalid_signature', 'Signature could not be recovered', decoded)
+  }
+  if (!sameAddress(payer, authorization.from)) {
+    reject('invalid_signature', `Signed by ${payer}, not ${authorization.from}`, decoded)
+  }
+
+  // Last, so a rejected payment never burns its nonce. Held for as long as
+  // the expiry check above still accepts the authorization.
+  const key = [requirement.network, requirement.asset, authorization.from, authorization.nonce].join(':').toLowerCase()
+  if (!(await options.nonceStore.claim(key, (validBefore + tolerance) * 1000))) {
+    reject('replayed', `Nonce ${authorization.nonce} was already used`, decoded)
+  }
+
+  return {
+    requirement,
+    payer,
+    authorization,
+    signature,
+    payload: { ...decoded, payload: decoded.payload },
+  }
+}
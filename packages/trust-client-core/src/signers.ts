@@ -0,0 +1,182 @@
+import { SignerError } from './errors'
+import type {
+  Eip1193Provider,
+  HttpSignerOptions,
+  SignerOptions,
+  TypedDataRequest,
+  X402Account,
+} from './types'
+
+/** EIP-712 domain fields in canonical order, with their types */
+const DOMAIN_FIELDS: Array<[string, string]> = [
+  ['name', 'string'],
+  ['version', 'string'],
+  ['chainId', 'uint256'],
+  ['verifyingContract', 'address'],
+  ['salt', 'bytes32'],
+]
+
+const DEFAULT_SIGNER_TIMEOUT_MS = 10_000
+
+/** Replace bigints with decimal strings so the payload survives `JSON.stringify` */
+function toJsonValue(value: unknown): unknown {
+  if (typeof value === 'bigint') return value.toString()
+  if (Array.isArray(value)) return value.map(toJsonValue)
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, inner]) => [key, toJsonValue(inner)]))
+  }
+  return value
+}
+
+/**
+ * The request as `eth_signTypedData_v4` JSON: bigints as decimal strings and
+ * an explicit `EIP712Domain` type for the fields present in `domain`
+ */
+export function toTypedDataJson(request: TypedDataRequest): TypedDataRequest {
+  const domainType = DOMAIN_FIELDS
+    .filter(([name]) => request.domain[name] !== undefined)
+    .map(([name, type]) => ({ name, type }))
+  return {
+    domain: toJsonValue(request.domain) as Record<string, unknown>,
+    types: { EIP712Domain: domainType, ...request.types },
+    primaryType: request.primaryType,
+    message: toJsonValue(request.message) as Record<string, unknown>,
+  }
+}
+
+/** 65-byte `r‖s‖v` or 64-byte EIP-2098 compact signature */
+function checkSignature(value: unknown, signer: string): `0x${string}` {
+  if (typeof value === 'string' && /^0x([0-9a-fA-F]{128}|[0-9a-fA-F]{130})$/.test(value)) {
+    return value as `0x${string}`
+  }
+  throw new SignerError(`${signer} returned no valid signature`, 'invalid_response', value)
+}
+
+async function checkApproval(
+  options: SignerOptions,
+  address: `0x${string}`,
+  request: TypedDataRequest,
+): Promise<void> {
+  if (options.approve && !(await options.approve({ ...request, address }))) {
+    throw new SignerError(`Signing ${request.primaryType} was not approved`, 'rejected')
+  }
+}
+
+/**
+ * Account backed by an arbitrary "sign this EIP-712 payload" callback — a
+ * KMS, HSM or custody API client. `sign` receives the request with bigints
+ * intact; errors it throws become `SignerError` (`unavailable`) unless they
+ * already are one.
+ */
+export function callbackSigner(
+  address: `0x${string}`,
+  sign: (request: TypedDataRequest) => Promise<string>,
+  options: SignerOptions = {},
+): X402Account {
+  return {
+    address,
+    async signTypedData(request) {
+      await checkApproval(options, address, request)
+      let signature: string
+      try {
+        signature = await sign(request)
+      } catch (error) {
+        if (error instanceof SignerError) throw error
+        const message = error instanceof Error ? error.message : String(error)
+        throw new SignerError(`Signer failed: ${message}`, 'unavailable', error)
+      }
+      return checkSignature(signature, 'Signer')
+    },
+  }
+}
+
+/**
+ * Account whose signatures come from a remote signing service. Each request
+ * is `POST url` with JSON `{ address, typedData }` (`eth_signTypedData_v4`
+ * shape) and must be answered with `{ signature }`. 401/403 map to
+ * `SignerError` reason `rejected` (the body's `reason` or `error` is kept in
+ * the message); other failures and timeouts map to `unavailable`.
+ */
+export function httpSigner(options: HttpSignerOptions): X402Account {
+  const fetchImpl = options.fetch ?? globalThis.fetch
+  const timeoutMs = options.timeoutMs ?? DEFAULT_SIGNER_TIMEOUT_MS
+
+  return {
+    address: options.address,
+    async signTypedData(request) {
+      await checkApproval(options, options.address, request)
+
+      const controller = new AbortController()
+      const timer = setTimeout(() => controller.abort(), timeoutMs)
+      let response: Response
+      try {
+        response = await fetchImpl(options.url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...options.headers },
+          body: JSON.stringify({ address: options.address, typedData: toTypedDataJson(request) }),
+          signal: controller.signal,
+        })
+      } catch (error) {
+        const message = controller.signal.aborted
+          ? `timed out after ${timeoutMs}ms`
+          : error instanceof Error ? error.message : String(error)
+        throw new SignerError(`Signer unreachable: ${message}`, 'unavailable', error)
+      } finally {
+        clearTimeout(timer)
+      }
+
+      const body = (await response.json().catch(() => undefined)) as Record<string, unknown> | undefined
+      if (response.status === 401 || response.status === 403) {
+        const detail = body?.reason ?? body?.error
+        throw new SignerError(
+          `Signer refused${detail ? `: ${String(detail)}` : ` (${response.status})`}`,
+          'rejected',
+          body,
+        )
+      }
+      if (!response.ok) {
+        throw new SignerError(`Signer error: ${response.status}`, 'unavailable', body)
+      }
+      return checkSignature(body?.signature, 'Signer')
+    },
+  }
+}
+
+/** EIP-1193 codes meaning the user or wallet declined (4001 rejected, 4100 unauthorized) */
+const EIP1193_REFUSALS = [4001, 4100]
+
+/**
+ * Account signing through an EIP-1193 provider with `eth_signTypedData_v4`:
+ * browser wallets, WalletConnect, or a KMS exposed as a provider. Refusals
+ * (codes 4001/4100) map to `SignerError` reason `rejected`, other provider
+ * errors to `unavailable`.
+ */
+export function eip1193Signer(
+  provider: Eip1193Provider,
+  address: `0x${string}`,
+  options: SignerOptions = {},
+): X402Account {
+  return {
+    address,
+    async signTypedData(request) {
+      await checkApproval(options, address, request)
+      let signature: unknown
+      try {
+        signature = await provider.request({
+          method: 'eth_signTypedData_v4',
+          params: [address, JSON.stringify(toTypedDataJson(request))],
+        })
+      } catch (error) {
+        const code = (error as { code?: unknown } | null)?.code
+        const message = error instanceof Error ? error.message : String(error)
+        const refused = typeof code === 'number' && EIP1193_REFUSALS.includes(code)
+        throw new SignerError(
+          refused ? `Wallet refused: ${message}` : `Wallet error: ${message}`,
+          refused ? 'rejected' : 'unavailable',
+          error,
+        )
+      }
+      return checkSignature(signature, 'Wallet')
+    },
+  }
+}
@@ -0,0 +1,121 @@
+import { TrustClientError } from './errors'
+import type {
+  MiddlewareContext,
+  TelemetryAttributes,
+  TelemetryCounter,
+  TelemetryHistogram,
+  TelemetryOptions,
+  TelemetryTracer,
+} from './types'
+
+// Numeric values of @opentelemetry/api enums, so the package is never imported
+const SPAN_KIND_CLIENT = 2
+const SPAN_STATUS_ERROR = 2
+
+/**
+ * Spans and metrics for client requests, written against the structural
+ * `TelemetryTracer` / `TelemetryMeter` interfaces so `@opentelemetry/api`
+ * stays an optional peer dependency.
+ *
+ * One span per client method call that reaches the network (`trust.<method>`),
+ * covering the x402 payment round trip and any retries.
+ */
+export class Telemetry {
+  private readonly tracer?: TelemetryTracer
+  private readonly requests?: TelemetryCounter
+  private readonly failures?: TelemetryCounter
+  private readonly payments?: TelemetryCounter
+  private readonly paymentAmount?: TelemetryCounter
+  private readonly duration?: TelemetryHistogram
+
+  constructor(options: TelemetryOptions) {
+    this.tracer = options.tracer
+    const meter = options.meter
+    if (meter) {
+      this.requests = meter.createCounter('trust_client.requests', {
+        description: 'Requests sent to the trust oracle',
+      })
+      this.failures = meter.createCounter('trust_client.failures', {
+        description: 'Requests that ended in an error',
+      })
+      this.payments = meter.createCounter('trust_client.payments', {
+        description: 'x402 payments signed',
+      })
+      this.paymentAmount = meter.createCounter('trust_client.payment.amount', {
+        description: 'x402 amount paid, in the asset\'s smallest unit',
+      })
+      this.duration = meter.createHistogram('trust_client.request.duration', {
+        description: 'Request duration including payment and retries',
+        unit: 'ms',
+      })
+    }
+  }
+
+  async trace<T>(
+    ctx: MiddlewareContext,
+    execute: (recordStatus: (status: number) => void) => Promise<T>,
+  ): Promise<T> {
+    const { operation } = ctx
+    // Low-cardinality attributes shared by spans and metrics
+    const common: TelemetryAttributes = {
+      'trust.method': operation.method,
+      'trust.endpoint': operation.endpoint,
+      'http.request.method': ctx.request.method,
+    }
+    const span = this.tracer?.startSpan(`trust.${operation.method}`, {
+      kind: SPAN_KIND_CLIENT,
+      attributes: {
+        ...common,
+        'url.full': ctx.request.url,
+        ...(operation.chainId != null ? { 'trust.chain_id': operation.chainId } : {}),
+        ...(operation.agentId != null ? { 'trust.agent_id': operation.agentId } : {}),
+      },
+    })
+
+    const startedAt = Date.now()
+    let status: number | undefined
+    let errorType: string | undefined
+
+    try {
+      return await execute((value) => {
+        status = value
+      })
+    } catch (error) {
+      if (error instanceof TrustClientError && error.status > 0) status = error.status
+      errorType = error instanceof Error ? error.name : 'Error'
+      span?.recordException(error instanceof Error ? error : String(error))
+      span?.setStatus({
+        code: SPAN_STATUS_ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      })
+      throw error
+    } finally {
+      const metricAttributes: TelemetryAttributes = {
+        ...common,
+        ...(status != null ? { 'http.response.status_code': status } : {}),
+      }
+      const payment = ctx.payment
+
+      if (status != null) span?.setAttribute('http.response.status_code', status)
+      span?.setAttribute('trust.payment.made', payment != null)
+
+      if (payment) {
+        const { amount, asset, network, payTo } = payment.requirement
+        span?.setAttribute('trust.payment.amount', amount)
+        span?.setAttribute('trust.payment.asset', asset)
+        span?.setAttribute('trust.payment.network', network)
+        span?.setAttribute('trust.payment.pay_to', payTo)
+        if (payment.receipt) span?.setAttribute('trust.payment.transaction', payment.receipt.transaction)
+
+        const paymentAttributes = { ...common, 'trust.payment.network': network, 'trust.payment.asset': asset }
+        this.payments?.add(1, paymentAttributes)
+        this.paymentAmount?.add(Number(amount), paymentAttributes)
+      }
+
+      this.requests?.add(1, metricAttributes)
+      this.duration?.record(Date.now() - startedAt, metricAttributes)
+      if (errorType) this.failures?.add(1, { ...metricAttributes, 'error.type': errorType })
+      span?.end()
+    }
+  }
+}
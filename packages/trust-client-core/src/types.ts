@@ -8,6 +8,242 @@ export interface BaseClientConfig {
   signal?: AbortSignal
   /** Per-request timeout in milliseconds */
   timeoutMs?: number
+  /** Retry transient failures (429, 502-504, network errors). Disabled when omitted. */
+  retry?: RetryOptions | false
+  /** Cache responses per agent (in-memory LRU unless a `store` is given). Disabled when omitted. */
+  cache?: CacheOptions
+  /** Share one in-flight request between identical concurrent calls (default true) */
+  dedupe?: boolean
+  /** Maximum concurrent requests to the oracle; extra calls queue in FIFO order */
+  maxConcurrency?: number
+  /** Serve bulk methods from a server bulk endpoint instead of one request per agent */
+  bulkEndpoint?: BulkEndpointHook
+  /**
+   * Request/response interceptors. They wrap the built-in auth and x402
+   * middlewares: `onRequest` runs in array order, `onResponse`/`onError` in reverse.
+   */
+  middleware?: Middleware[]
+  /** OpenTelemetry tracer/meter (e.g. `trace.getTracer(...)`, `metrics.getMeter(...)`) */
+  telemetry?: TelemetryOptions
+  /**
+   * Runtime response validation: `strict` throws `SchemaMismatchError`,
+   * `warn` logs and returns the payload, `off` (default) skips checks
+   */
+  validate?: ValidationMode
+  /** Custom evaluation presets by name, usable as `evaluate(..., { preset: name })` */
+  presets?: Record<string, CustomPreset>
+}
+
+export type ValidationMode = 'strict' | 'warn' | 'off'
+
+/** First mismatch found by a `Schema` */
+export interface SchemaIssue {
+  path: string
+  expected: string
+  received: string
+}
+
+/** Runtime check for a response payload; see `schemas` */
+export interface Schema<T> {
+  /** Returns the first mismatch, or `null` when `value` matches */
+  check(value: unknown, path?: string): SchemaIssue | null
+  /** Returns `value` typed as `T`, or throws `SchemaMismatchError` */
+  parse(value: unknown): T
+  /** Type guard form of `check` */
+  is(value: unknown): value is T
+}
+
+// --- Telemetry Types ---
+// Structural subsets of @opentelemetry/api, so it stays an optional peer dependency
+
+export type TelemetryAttributes = Record<string, string | number | boolean>
+
+export interface TelemetrySpan {
+  setAttribute(key: string, value: string | number | boolean): unknown
+  setStatus(status: { code: number; message?: string }): unknown
+  recordException(exception: Error | string): unknown
+  end(): void
+}
+
+export interface TelemetryTracer {
+  startSpan(
+    name: string,
+    options?: { kind?: number; attributes?: TelemetryAttributes },
+  ): TelemetrySpan
+}
+
+export interface TelemetryCounter {
+  add(value: number, attributes?: TelemetryAttributes): void
+}
+
+export interface TelemetryHistogram {
+  record(value: number, attributes?: TelemetryAttributes): void
+}
+
+export interface TelemetryMeter {
+  createCounter(name: string, options?: { description?: string; unit?: string }): TelemetryCounter
+  createHistogram(name: string, options?: { description?: string; unit?: string }): TelemetryHistogram
+}
+
+export interface TelemetryOptions {
+  /** Emits one `trust.<method>` span per request */
+  tracer?: TelemetryTracer
+  /** Records `trust_client.*` request, failure, payment and duration metrics */
+  meter?: TelemetryMeter
+}
+
+// --- Middleware Types ---
+
+/** The client method behind a request, for middlewares and telemetry */
+export interface Operation {
+  /** Client method name, e.g. `getScore` */
+  method: string
+  /** Path template relative to `/api/v1`, e.g. `/agent/:chainId/:agentId/score` */
+  endpoint: string
+  chainId?: number
+  agentId?: number
+}
+
+/** The x402 requirement being paid and the resource it pays for */
+export interface PaymentInfo {
+  requirement: PaymentRequirement
+  resource: ResourceInfo
+}
+
+/**
+ * What a signed payment authorizes, in EIP-3009 terms whatever the scheme
+ * (Permit2 maps owner → `from`, deadline → `validBefore`); numbers are
+ * decimal strings
+ */
+export interface PaymentAuthorization {
+  from: string
+  to: string
+  value: string
+  validAfter: string
+  validBefore: string
+  nonce: string
+}
+
+/** Settlement result from the `PAYMENT-RESPONSE` header of a paid response */
+export interface PaymentReceipt {
+  success: boolean
+  /** Settlement transaction hash */
+  transaction: string
+  network: string
+  payer?: string
+  errorReason?: string
+}
+
+/** A payment made for one request */
+export interface PaymentDetails extends PaymentInfo {
+  authorization: PaymentAuthorization
+  signature: string
+  /** Absent when the server sent no (or an unreadable) settlement header */
+  receipt?: PaymentReceipt
+}
+
+
+/** The outgoing request as seen (and mutated) by middlewares */
+export interface MiddlewareRequest {
+  url: string
+  method: string
+  headers: Record<string, string>
+  body?: string
+}
+
+export interface MiddlewareContext {
+  /** Mutable request; changes in `onRequest` apply to the fetch */
+  request: MiddlewareRequest
+  /** The client method that issued this request */
+  operation: Operation
+  /** Per-call options passed to the client method */
+  options: RequestOptions
+  /** Scratch space shared by all middlewares for this call */
+  state: Record<string, unknown>
+  /** Send a request through the transport (timeout, retries) without re-running `onRequest` */
+  fetch(request: MiddlewareRequest): Promise<Response>
+  /** Set by the x402 middleware once a payment has been signed */
+  payment?: PaymentDetails
+}
+
+export interface Middleware {
+  name?: string
+  /** Inspect or modify the request before it is sent */
+  onRequest?(ctx: MiddlewareContext): void | Promise<void>
+  /** Inspect the response; return a `Response` to replace it */
+  onResponse?(response: Response, ctx: MiddlewareContext): Response | void | Promise<Response | void>
+  /**
+   * Called with typed errors (and transport failures). Return a `Response` to
+   * recover, throw to replace the error, or return nothing to pass it on.
+   */
+  onError?(error: unknown, ctx: MiddlewareContext): Response | void | Promise<Response | void>
+}
+
+/** Client methods whose responses can be cached */
+export type CacheableMethod = 'getAgent' | 'getScore' | 'getSignals' | 'getEvents' | 'evaluate'
+
+/** A cached response; plain JSON so external stores can serialize it */
+export interface CacheEntry<T = unknown> {
+  value: T
+  /** Epoch ms when the response was stored */
+  storedAt: number
+  /** Epoch ms after which the entry is stale */
+  expiresAt: number
+  /** Epoch ms until which a stale entry may be served while revalidating */
+  staleUntil: number
+  /** `score.updatedAt` / `evaluation.evaluatedAt` from the payload, if present */
+  dataTimestamp?: number
+}
+
+/** Storage adapter for the response cache (Redis, file, ...). Methods may be sync or async. */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>
+  set(key: string, entry: CacheEntry): void | Promise<void>
+  delete(key: string): void | Promise<void>
+  /** All keys starting with `prefix` — used for per-agent invalidation */
+  keys(prefix: string): string[] | Promise<string[]>
+}
+
+export interface CacheOptions {
+  /** Storage adapter (default: in-memory LRU) */
+  store?: CacheStore
+  /** Capacity of the default in-memory store (default 1000) */
+  maxEntries?: number
+  /**
+   * TTL per method in milliseconds; `0` disables caching for that method.
+   * Defaults: getAgent 5 min, getScore/getSignals/evaluate 60 s, getEvents not cached.
+   */
+  ttlMs?: Partial<Record<CacheableMethod, number>>
+  /** Serve expired entries for this long while refreshing in the background (default 0) */
+  staleWhileRevalidateMs?: number
+}
+
+/** Retry policy for transient failures; omitted fields fall back to defaults */
+export interface RetryOptions {
+  /** Total attempts including the first one (default 3) */
+  maxAttempts?: number
+  /** Base delay for exponential backoff in milliseconds (default 250) */
+  baseDelayMs?: number
+  /** Upper bound for a single delay, including `Retry-After` (default 10000) */
+  maxDelayMs?: number
+  /** Apply full jitter to backoff delays (default true) */
+  jitter?: boolean
+  /** HTTP statuses that trigger a retry (default [429, 502, 503, 504]) */
+  retryOnStatus?: number[]
+  /** Retry when fetch itself fails or times out (default true) */
+  retryOnNetworkError?: boolean
+  /** Wait for the server's `Retry-After` instead of the backoff delay (default true) */
+  respectRetryAfter?: boolean
+}
+
+/** Per-call overrides accepted by every `TrustClient` method */
+export interface RequestOptions {
+  /** Override the client retry policy for this call; `false` disables retries */
+  retry?: RetryOptions | false
+  /** `false` bypasses the response cache (neither read nor written) for this call */
+  cache?: boolean
+  /** Abort this call (combined with the client-wide `signal`) */
+  signal?: AbortSignal
 }
 
 /** Configuration for API key authentication */
@@ -15,20 +251,304 @@ export interface ApiKeyConfig extends BaseClientConfig {
   apiKey: string
 }
 
-/** Configuration for x402 micropayment authentication (requires viem) */
+/** EIP-712 payload the client asks its account to sign; `message` may hold bigints */
+export interface TypedDataRequest {
+  domain: Record<string, unknown>
+  types: Record<string, Array<{ name: string; type: string }>>
+  primaryType: string
+  message: Record<string, unknown>
+}
+
+/**
+ * What x402 needs from a wallet: a viem `LocalAccount`, or an out-of-process
+ * signer from `callbackSigner`, `httpSigner` or `eip1193Signer`
+ */
+export interface X402Account {
+  address: `0x${string}`
+  signTypedData: (args: TypedDataRequest) => Promise<`0x${string}`>
+}
+
+/** Configuration for x402 micropayment authentication */
 export interface X402Config extends BaseClientConfig {
-  account: {
-    address: `0x${string}`
-    signTypedData: (args: {
-      domain: Record<string, unknown>
-      types: Record<string, Array<{ name: string; type: string }>>
-      primaryType: string
-      message: Record<string, unknown>
-    }) => Promise<`0x${string}`>
+  account: X402Account
+  /** Limits on what the client will sign; see `PaymentPolicy` */
+  paymentPolicy?: PaymentPolicy
+  /**
+   * Which 402 `accepts` entry to pay (default `'first'`). Entries this SDK
+   * cannot sign are always skipped.
+   */
+  selectRequirement?: RequirementStrategy
+  /**
+   * Audit log of signed payments. Each authorization is recorded before it is
+   * sent, so a failing ledger blocks the payment rather than losing the record.
+   */
+  ledger?: PaymentLedger
+  /**
+   * Called when the ledger fails to store a receipt or a refusal. The paid
+   * response is still returned, so the entry stays `signed` unless this
+   * handler repairs it (default: ignored).
+   */
+  onLedgerError?: (error: unknown, nonce: string) => void
+  /**
+   * Remember each endpoint's payment requirement and sign `X-PAYMENT` on the
+   * first attempt, skipping the 402 round trip (default off). Requirements are
+   * re-learned after `ttlMs` (default 10 minutes) or when the server rejects one.
+   */
+  proactivePayment?: boolean | { ttlMs?: number }
+  /** Validity window of signed authorizations; see `AuthorizationWindow` */
+  authorizationWindow?: AuthorizationWindow
+  /** Current time in milliseconds (default `Date.now`); used for signing, budgets and the ledger */
+  clock?: () => number
+  /** 32-byte hex nonce per authorization (default: `crypto.getRandomValues`); must never repeat */
+  nonceSource?: () => `0x${string}`
+  /**
+   * Extra signing schemes, matched on `scheme` and `assetTransferMethod`.
+   * They take precedence over the built-in EIP-3009 and Permit2 schemes.
+   */
+  paymentSchemes?: PaymentScheme[]
+}
+
+/** How long a signed EIP-3009 authorization may be settled */
+export interface AuthorizationWindow {
+  /**
+   * Seconds until `validBefore` (default 3600). Always clamped to the
+   * requirement's `maxTimeoutSeconds`.
+   */
+  validForSeconds?: number
+  /**
+   * Set `validAfter` this many seconds in the past instead of `0`, so the
+   * authorization is not valid long before it was signed but still tolerates
+   * a chain clock running slightly behind
+   */
+  validAfterLeewaySeconds?: number
+  /**
+   * Sign against the server's clock: offset the local clock by the `Date`
+   * header of the latest oracle response (default false)
+   */
+  useServerTime?: boolean
+}
+
+/** When a hybrid client may stop using its API key and pay per call instead */
+export interface X402FallbackPolicy {
+  /** Responses to the API key that trigger a paid retry (default [402, 429]) */
+  onStatus?: number[]
+  /**
+   * Methods (`getScore`) or endpoint templates (`/trust/evaluate`) allowed to
+   * fall back; default all
+   */
+  endpoints?: string[]
+  /**
+   * After the key is rejected with a non-402 status (rate limit, exhausted
+   * quota), pay directly for this long instead of retrying the key on every
+   * call. The server's `Retry-After` wins when present (default 60000).
+   */
+  cooldownMs?: number
+  /** Final veto, e.g. to fall back only during business hours */
+  shouldFallback?: (operation: Operation, response: Response) => boolean | Promise<boolean>
+}
+
+/**
+ * Hybrid authentication: requests use the API key, and those it cannot cover
+ * (rate limited, quota exhausted, or priced per call) are paid via x402
+ */
+export interface HybridConfig extends X402Config {
+  apiKey: string
+  /**
+   * Which failures and endpoints may fall back to x402. Required to opt in:
+   * `{}` falls back on 402 and 429 everywhere, and without it the account is
+   * never used.
+   */
+  fallback: X402FallbackPolicy
+}
+
+// --- Signer Types ---
+
+/** Why a signer adapter did not return a signature */
+export type SignerFailure = 'rejected' | 'unavailable' | 'invalid_response'
+
+/** Decides whether a signature request may go to the signer; `false` refuses it */
+export type SigningApproval = (request: TypedDataRequest & { address: `0x${string}` }) => boolean | Promise<boolean>
+
+export interface SignerOptions {
+  /** Checked before every signature; refusals throw `SignerError` with reason `rejected` */
+  approve?: SigningApproval
+}
+
+export interface HttpSignerOptions extends SignerOptions {
+  /** Endpoint receiving `POST { address, typedData }` and answering `{ signature }` */
+  url: string
+  /** Address the remote signer signs for */
+  address: `0x${string}`
+  /** Extra request headers, e.g. service credentials */
+  headers?: Record<string, string>
+  /** Abort the signing request after this long (default 10000) */
+  timeoutMs?: number
+  fetch?: TrustClientFetch
+}
+
+/** Minimal EIP-1193 provider (`window.ethereum`, WalletConnect, a KMS bridge) */
+export interface Eip1193Provider {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>
+}
+
+// --- Payment Scheme Types ---
+
+/** Inputs to `PaymentScheme.sign`, resolved once per payment */
+export interface PaymentSigningContext {
+  account: X402Account
+  requirement: PaymentRequirement
+  resource: ResourceInfo
+  /** 32-byte hex nonce from `config.nonceSource` */
+  nonce: `0x${string}`
+  /** Unix seconds, from `config.authorizationWindow` */
+  validAfter: number
+  validBefore: number
+}
+
+/** A scheme's signed payload for `X-PAYMENT` */
+export interface SchemePayload {
+  /** Sent as `payload` in the X-PAYMENT header */
+  payload: Record<string, unknown>
+  signature: `0x${string}`
+  /** Normalized for the ledger and `withMeta()` */
+  authorization: PaymentAuthorization
+}
+
+/** Signs one kind of x402 requirement, keyed on `scheme` + `extra.assetTransferMethod` */
+export interface PaymentScheme {
+  /** x402 scheme, e.g. `exact` */
+  scheme: string
+  /** `extra.assetTransferMethod` handled, e.g. `eip3009` */
+  assetTransferMethod: string
+  /** Further checks on a requirement with a matching key (network family, required `extra` fields) */
+  supports?(requirement: PaymentRequirement): boolean
+  sign(context: PaymentSigningContext): Promise<SchemePayload>
+}
+
+// --- Payment Ledger Types ---
+
+/** One signed x402 authorization, as kept by a `PaymentLedger` */
+export interface LedgerEntry {
+  /** EIP-3009 nonce; unique per authorization */
+  nonce: string
+  /** ISO timestamp of signing */
+  signedAt: string
+  /**
+   * `signed` until a receipt arrives; `failed` when settlement reported
+   * `success: false` or the server answered the payment with another 402
+   */
+  status: 'signed' | 'settled' | 'failed'
+  amount: string
+  asset: string
+  network: string
+  payTo: string
+  payer: string
+  resourceUrl: string
+  /** Client method and endpoint template, e.g. `getScore` and `/agent/:chainId/:agentId/score` */
+  method: string
+  endpoint: string
+  /** Agent queried, when the endpoint is per-agent */
+  chainId?: number
+  agentId?: number
+  receipt?: PaymentReceipt
+}
+
+export interface LedgerQuery {
+  /** Signed at or after (inclusive) */
+  from?: Date | number
+  /** Signed before (exclusive) */
+  to?: Date | number
+  endpoint?: string
+  asset?: string
+  chainId?: number
+  agentId?: number
+}
+
+/**
+ * Storage for signed payments. Implement this to keep the audit log in a
+ * database; `MemoryPaymentLedger` and `JsonlPaymentLedger` are built in.
+ */
+export interface PaymentLedger {
+  /** Store a newly signed authorization (before it is sent) */
+  record(entry: LedgerEntry): Promise<void>
+  /** Attach the settlement receipt to the entry with `nonce` */
+  settle(nonce: string, receipt: PaymentReceipt): Promise<void>
+  /** Entries matching `query`, oldest first */
+  entries(query?: LedgerQuery): Promise<LedgerEntry[]>
+}
+
+/** Total spend for one group (period or endpoint) in one asset */
+export interface SpendSummary {
+  key: string
+  asset: string
+  /** Sum in the asset's atomic units */
+  amount: string
+  count: number
+}
+
+export type RequirementStrategy =
+  | 'first'
+  | 'cheapest'
+  | RequirementPreferences
+  | RequirementSelector
+
+export interface RequirementPreferences {
+  /** CAIP-2 networks the account can sign for; other entries are skipped */
+  networks?: string[]
+  /** Networks to prefer, most preferred first */
+  preferredNetworks?: string[]
+  /** Asset addresses to prefer, most preferred first (case-insensitive) */
+  preferredAssets?: string[]
+  /** Tie-break on the raw `amount` after network/asset preferences (default `'first'`) */
+  prefer?: 'first' | 'cheapest'
+}
+
+/** Custom selection over the supported entries; return `undefined` to pay nothing */
+export type RequirementSelector = (
+  candidates: PaymentRequirement[],
+  context: { resource: ResourceInfo; operation: Operation },
+) => PaymentRequirement | undefined | Promise<PaymentRequirement | undefined>
+
+/** Atomic amount of the payment asset (e.g. `'10000'` = 0.01 USDC) */
+export type AtomicAmount = string | bigint
+
+/**
+ * Guard applied before every x402 signature. Amounts are in the asset's
+ * atomic units; budgets roll over the trailing hour/day and are tracked per
+ * asset for the lifetime of the client. Payments the server refuses with
+ * another 402 are not counted.
+ */
+export interface PaymentPolicy {
+  maxAmountPerRequest?: AtomicAmount
+  budget?: {
+    perHour?: AtomicAmount
+    perDay?: AtomicAmount
   }
+  /** Allowed `payTo` addresses (case-insensitive) */
+  allowedPayTo?: string[]
+  /** Allowed asset contract addresses (case-insensitive) */
+  allowedAssets?: string[]
+  /** Allowed CAIP-2 networks, e.g. `'eip155:42220'` */
+  allowedNetworks?: string[]
+  /** Called after the static checks pass; return `false` (or throw) to refuse */
+  beforeSign?: (payment: PaymentAttempt) => boolean | void | Promise<boolean | void>
 }
 
-export type TrustClientConfig = ApiKeyConfig | X402Config
+export interface PaymentAttempt extends PaymentInfo {
+  operation: Operation
+  /** Spent on this asset in the trailing hour and day, in atomic units */
+  spent: { hour: bigint; day: bigint }
+}
+
+export type PaymentPolicyViolation =
+  | 'max_amount'
+  | 'budget'
+  | 'payee'
+  | 'asset'
+  | 'network'
+  | 'vetoed'
+
+export type TrustClientConfig = ApiKeyConfig | X402Config | HybridConfig
 
 // --- API Response Types ---
 
@@ -133,28 +653,101 @@ export interface SearchResponse {
   count: number
 }
 
-export interface EventsOptions {
+export interface EventsOptions extends RequestOptions {
   limit?: number
   offset?: number
   kind?: string
 }
 
-export interface SearchOptions {
+export interface SearchOptions extends RequestOptions {
   q?: string
   chainId?: number
   limit?: number
+  offset?: number
 }
 
-export interface SignalsOptions {
+export interface SignalsOptions extends RequestOptions {
   status?: 'open' | 'resolved' | 'all'
 }
 
+// --- Pagination Types ---
+
+export interface IterateEventsOptions extends RequestOptions {
+  kind?: string
+  /** Events fetched per request (default 25) */
+  pageSize?: number
+}
+
+export interface IterateSearchOptions extends Omit<SearchOptions, 'limit' | 'offset'> {
+  /** Agents fetched per request (default 25) */
+  pageSize?: number
+}
+
+export interface CollectOptions {
+  /** Stop after this many items (fetches no further pages) */
+  max?: number
+}
+
+/**
+ * Lazily paged results. Each `for await` starts from the first page; breaking
+ * out of the loop stops fetching.
+ */
+export interface PageIterator<T> extends AsyncIterable<T> {
+  /** Gather items into an array, optionally stopping at `max` */
+  collect(options?: CollectOptions): Promise<T[]>
+}
+
+// --- Bulk Types ---
+
+/** Identifies one agent on one chain */
+export interface AgentRef {
+  chainId: number
+  agentId: number
+}
+
+export interface BulkOptions extends RequestOptions {
+  /** Lookups in flight at once (default 5) */
+  concurrency?: number
+}
+
+/** Outcome for one agent, shaped like a `Promise.allSettled` entry */
+export type BulkItemResult<T> =
+  | { status: 'fulfilled'; agent: AgentRef; value: T }
+  | { status: 'rejected'; agent: AgentRef; reason: Error }
+
+/** Results keyed by `agentKey(chainId, agentId)`, in input order */
+export type BulkResult<T> = Map<string, BulkItemResult<T>>
+
+export type BulkMethod = 'getScores' | 'getAgents' | 'evaluateMany'
+
+export interface BulkRequest {
+  method: BulkMethod
+  /** De-duplicated agents to look up */
+  agents: AgentRef[]
+  /** Evaluation parameters (`evaluateMany` only) */
+  evaluate?: Pick<EvaluateOptions, 'preset' | 'context' | 'sensitivity' | 'objective'>
+  /** POST JSON to `path` (relative to `/api/v1`) through the client's auth, x402 and retry handling */
+  post: <T>(path: string, body: Record<string, unknown>) => Promise<T>
+}
+
+/**
+ * Maps a bulk call onto a server bulk endpoint. Return one result per agent,
+ * or `undefined` to fall back to per-agent requests. Agents missing from the
+ * returned list are reported as failed; a thrown error fails every agent.
+ */
+export type BulkEndpointHook = (
+  request: BulkRequest,
+) => Promise<Array<BulkItemResult<unknown>> | undefined>
+
 // --- Evaluation Types ---
 
 export type EvaluatePreset = 'default_safety' | 'agent_to_agent' | 'defi_counterparty'
 
-export interface EvaluateOptions {
-  preset: EvaluatePreset
+/** A server preset or the name of a custom preset registered on the client */
+export type PresetName = EvaluatePreset | (string & {})
+
+export interface EvaluateOptions extends RequestOptions {
+  preset: PresetName
   context?: string
   sensitivity?: 'low' | 'normal' | 'high'
   objective?: string
@@ -184,12 +777,105 @@ export interface Evaluation {
   evaluatedAt: string
   chainId: number
   agentId: number
+  /** Server preset that ran, when `preset` names a custom preset */
+  basePreset?: EvaluatePreset
+  /** Custom-preset thresholds this evaluation broke (custom presets only) */
+  breaches?: ThresholdBreach[]
 }
 
 export interface EvaluateResponse {
   evaluation: Evaluation
 }
 
+/** `EvaluationEvidence` fields a custom preset can put thresholds on */
+export type NumericEvidenceField = Exclude<keyof EvaluationEvidence, 'score_confidence'>
+
+/** Local bound on one evidence field; an evaluation outside it is tightened to `action` */
+export interface EvidenceThreshold {
+  field: NumericEvidenceField
+  /** Breached when the value is below `min` */
+  min?: number
+  /** Breached when the value is above `max` */
+  max?: number
+  action: 'review' | 'limit'
+  /** Added to `evaluation.flags` on breach (default `<field>_out_of_range`) */
+  flag?: string
+}
+
+export interface ThresholdBreach {
+  field: NumericEvidenceField
+  value: number
+  min?: number
+  max?: number
+  action: 'review' | 'limit'
+  flag: string
+}
+
+/**
+ * A named evaluation profile resolved on the client: the request runs on
+ * server preset `base` and the response is post-processed with `thresholds`,
+ * which can only tighten `recommended_action`.
+ */
+export interface CustomPreset {
+  base: EvaluatePreset
+  sensitivity?: EvaluateOptions['sensitivity']
+  objective?: string
+  /** Context sent with each call; `{context}` is replaced with the per-call `context` (or removed) */
+  context?: string
+  thresholds?: EvidenceThreshold[]
+}
+
+/** Result of a `withMeta()` call: the body plus the x402 payment, if this call made one */
+export interface WithMeta<T> {
+  data: T
+  /** `null` for cache hits, calls that joined an identical in-flight request, and unpaid responses */
+  payment: PaymentDetails | null
+}
+
+/** Methods `TrustClient.quote()` can price */
+export type QuotableMethod = 'getAgent' | 'getScore' | 'getSignals' | 'getEvents' | 'search' | 'evaluate'
+
+/** One `accepts` entry of a 402, normalized for display and budgeting */
+export interface QuoteOption {
+  /** Human-readable amount (e.g. `'0.001'`), or `null` when the asset's decimals are unknown */
+  amount: string | null
+  /** Amount in the asset's atomic units */
+  atomicAmount: string
+  decimals: number | null
+  asset: string
+  /** EIP-712 domain name of the asset, e.g. `'USD Coin'` */
+  assetName: string
+  network: string
+  payTo: string
+  /** How long a signed authorization stays acceptable to the server */
+  maxTimeoutSeconds: number
+  /** Whether this SDK can sign it */
+  supported: boolean
+  requirement: PaymentRequirement
+}
+
+/** Price of one call, from `TrustClient.quote()` */
+export interface PriceQuote {
+  method: QuotableMethod
+  /** `false` when the endpoint answered without payment */
+  paymentRequired: boolean
+  /** Every option the server offered, in its order */
+  options: QuoteOption[]
+  /** The option this client would pay (per `selectRequirement`), if any */
+  selected: QuoteOption | null
+  resource: ResourceInfo | null
+}
+
+/** The request methods of `TrustClient`, resolving to `WithMeta<T>` */
+export interface TrustClientWithMeta {
+  getAgent(chainId: number, agentId: number, options?: RequestOptions): Promise<WithMeta<AgentProfileResponse>>
+  getScore(chainId: number, agentId: number, options?: RequestOptions): Promise<WithMeta<ScoreResponse>>
+  getSignals(chainId: number, agentId: number, options?: SignalsOptions): Promise<WithMeta<SignalsResponse>>
+  getEvents(chainId: number, agentId: number, options?: EventsOptions): Promise<WithMeta<EventsResponse>>
+  search(options?: SearchOptions): Promise<WithMeta<SearchResponse>>
+  evaluate(chainId: number, agentId: number, options: EvaluateOptions): Promise<WithMeta<EvaluateResponse>>
+}
+
 // --- x402 Wire Types ---
 
 export interface PaymentRequirement {
@@ -203,6 +889,8 @@ export interface PaymentRequirement {
     assetTransferMethod: string
     name: string
     version: string
+    /** Contract allowed to pull Permit2 payments (`assetTransferMethod: 'permit2'`) */
+    spender?: string
   }
 }
 
@@ -218,3 +906,383 @@ export interface PaymentRequiredBody {
   resource: ResourceInfo
   error: string
 }
+
+/** Decoded `X-PAYMENT` header; `payload` is scheme-specific */
+export interface PaymentPayload<P = Record<string, unknown>> {
+  x402Version: number
+  resource: ResourceInfo
+  accepted: PaymentRequirement
+  payload: P
+}
+
+/** `payload` of an EIP-3009 (`assetTransferMethod: 'eip3009'`) payment */
+export interface Eip3009Payload {
+  signature: `0x${string}`
+  authorization: PaymentAuthorization
+}
+
+// --- x402 Server Types ---
+
+/** Why `verifyPayment` rejected an `X-PAYMENT` header */
+export type PaymentVerificationFailure =
+  | 'missing'
+  | 'malformed'
+  | 'requirement_mismatch'
+  | 'unsupported_scheme'
+  | 'payee_mismatch'
+  | 'amount_mismatch'
+  | 'not_yet_valid'
+  | 'expired'
+  | 'window_too_long'
+  | 'invalid_signature'
+  | 'replayed'
+
+/** Remembers spent authorization nonces, shared by every server instance that accepts payments */
+export interface NonceStore {
+  /**
+   * Atomically mark `key` as used until `expiresAt` (ms since epoch).
+   * Resolves `false` when it was already used.
+   */
+  claim(key: string, expiresAt: number): Promise<boolean>
+}
+
+/** EIP-712 signer recovery, e.g. viem's `recoverTypedDataAddress` */
+export type TypedDataRecoverer = (args: {
+  domain: Record<string, unknown>
+  types: Record<string, Array<{ name: string; type: string }>>
+  primaryType: string
+  message: Record<string, unknown>
+  signature: `0x${string}`
+}) => Promise<string>
+
+export interface VerifyPaymentOptions {
+  /** Replay protection: each authorization nonce is accepted once */
+  nonceStore: NonceStore
+  /** Current time in milliseconds (default `Date.now`) */
+  clock?: () => number
+  /** Clock skew tolerated on `validAfter` / `validBefore` in seconds (default 5) */
+  clockToleranceSeconds?: number
+  /** Signature recovery (default: viem's `recoverTypedDataAddress`, loaded on first use) */
+  recoverTypedDataAddress?: TypedDataRecoverer
+}
+
+/** An `X-PAYMENT` header that passed every check */
+export interface VerifiedPayment {
+  /** The server's requirement the payment satisfies */
+  requirement: PaymentRequirement
+  /** Recovered signer, equal to `authorization.from` */
+  payer: string
+  authorization: PaymentAuthorization
+  signature: `0x${string}`
+  payload: PaymentPayload<Eip3009Payload>
+}
+
+// --- Trust Policy Types ---
+
+export type TrustDecision = Evaluation['recommended_action']
+
+/** Comparison applied to a fact: `contains` tests array facts, `exists` tests presence (`value: false` for absence) */
+export type PolicyOperator = 'eq' | 'neq' | 'lt' | 'lte' | 'gt' | 'gte' | 'in' | 'notIn' | 'contains' | 'exists'
+
+/** JSON value a policy compares facts against */
+export type PolicyValue = string | number | boolean | null | Array<string | number | boolean | null>
+
+/** Which signals a `signals` condition counts */
+export interface SignalFilter {
+  severity?: Signal['severity'] | Array<Signal['severity']>
+  signalKind?: string | string[]
+  /** `true`: unresolved only; `false`: resolved only; omitted: both */
+  open?: boolean
+  /** Triggered within the last N days */
+  withinDays?: number
+}
+
+/**
+ * A rule condition. Facts are dot paths into the input, rooted at `score`
+ * (`score.value`, `score.stats.openIncidents`) or `evaluation`
+ * (`evaluation.trust_band`, `evaluation.evidence.ageDays`); a missing fact
+ * only satisfies `exists: false`, `neq` and `notIn`.
+ */
+export type PolicyCondition =
+  | { all: PolicyCondition[] }
+  | { any: PolicyCondition[] }
+  | { not: PolicyCondition }
+  | { fact: string; op: PolicyOperator; value?: PolicyValue }
+  /** Number of matching signals compared with `count` (default: at least one) */
+  | { signals: SignalFilter; count?: { op: 'eq' | 'lt' | 'lte' | 'gt' | 'gte'; value: number } }
+
+export interface PolicyRule {
+  /** Stable identifier reported when the rule fires */
+  id: string
+  description?: string
+  when: PolicyCondition
+  then: TrustDecision
+}
+
+/**
+ * A declarative, JSON-serializable trust policy. Rules are checked in order
+ * and the first that fires decides; later matches are still reported.
+ */
+export interface TrustPolicy {
+  /** Format version; only 1 exists */
+  version: 1
+  name: string
+  description?: string
+  /** Preset used when `TrustClient.decide` fetches the evaluation (default `default_safety`) */
+  evaluatePreset?: PresetName
+  rules: PolicyRule[]
+  /** Decision when no rule fires */
+  default: TrustDecision
+}
+
+/** Facts a policy is evaluated against; omit what the policy does not read */
+export interface PolicyInput {
+  score?: TrustScore
+  signals?: Signal[]
+  evaluation?: Evaluation
+}
+
+/** What a fired rule looked at */
+export interface PolicyEvidence {
+  /** Fact path → value read (`undefined` when missing) */
+  facts: Record<string, unknown>
+  /** IDs of the signals matched by `signals` conditions */
+  signals: string[]
+}
+
+export interface FiredRule {
+  id: string
+  description?: string
+  decision: TrustDecision
+  evidence: PolicyEvidence
+}
+
+export interface PolicyDecision {
+  decision: TrustDecision
+  /** The rule that decided, or `null` when `default` applied */
+  decidedBy: string | null
+  /** Every rule whose condition held, in policy order */
+  fired: FiredRule[]
+  policy: { name: string; version: number }
+}
+
+// --- Trust Gate Types ---
+
+/** Anything that can run trust evaluations, e.g. a `DenScope` or `Ayni` client */
+export interface TrustEvaluator {
+  evaluate(chainId: number, agentId: number, options: EvaluateOptions): Promise<EvaluateResponse>
+}
+
+/** Caller identity: an `AgentRef`, an identity string, or nothing */
+export type AgentIdentity = AgentRef | string | null | undefined
+
+/** Read the caller's identity from a framework request */
+export type AgentExtractor<Req> = (request: Req) => AgentIdentity | Promise<AgentIdentity>
+
+export interface TrustGateOptions {
+  client: TrustEvaluator
+  /** Preset (server or custom) used for callers (default `agent_to_agent`) */
+  preset?: PresetName
+  context?: string
+  /**
+   * Header carrying the caller's identity when no extractor is given (default
+   * `X-Agent-Id`). The gate does not authenticate it: any caller can claim any
+   * agent, so only rely on it when a proxy or earlier middleware has verified
+   * the value (e.g. from a signed request) and strips client-supplied copies.
+   */
+  header?: string
+  /** Lowest `trust_band` served; unset accepts every band */
+  minBand?: 'low' | 'medium' | 'high'
+  /** Strictest `recommended_action` still served (default `review`, so only `limit` is refused) */
+  maxAction?: 'allow' | 'review'
+  /** How long an agent's evaluation is reused, in ms (default 60_000; 0 disables) */
+  cacheTtlMs?: number
+  /** Most agents kept in the decision cache (default 1000) */
+  maxCacheEntries?: number
+  /** Time source for cache expiry (default `Date.now`) */
+  clock?: () => number
+}
+
+export type TrustGateDenial =
+  | 'missing_identity'
+  | 'invalid_identity'
+  | 'unknown_agent'
+  | 'below_min_band'
+  | 'action_refused'
+  | 'oracle_unavailable'
+
+export interface TrustGateDecision {
+  allowed: boolean
+  /** Why the caller was refused; `null` when allowed */
+  reason: TrustGateDenial | null
+  agent: AgentRef | null
+  /** Missing when the identity could not be read or the oracle failed */
+  evaluation?: Evaluation
+  /** True when the evaluation came from the gate's cache */
+  cached: boolean
+}
+
+/** Options shared by the framework adapters */
+export interface TrustGateAdapterOptions<Req> {
+  /** Read the identity yourself instead of from the gate's header */
+  extract?: AgentExtractor<Req>
+}
+
+/** Status and JSON body answering a refused caller */
+export interface TrustGateDenialResponse {
+  status: number
+  body: {
+    error: 'trust_gate_denied'
+    reason: TrustGateDenial
+    agent: AgentRef | null
+    rationale: string
+    trust_band?: Evaluation['trust_band']
+    recommended_action?: Evaluation['recommended_action']
+  }
+}
+
+/** The parts of an Express (or Connect) request the gate reads */
+export interface ExpressLikeRequest {
+  headers: Record<string, string | string[] | undefined>
+}
+
+export interface ExpressLikeResponse {
+  locals?: Record<string, unknown>
+  status(code: number): { json(body: unknown): unknown }
+}
+
+/** The parts of a Hono context the gate uses */
+export interface HonoLikeContext {
+  req: { header(name: string): string | undefined; raw: Request }
+  set(key: string, value: unknown): void
+  json(body: unknown, status: number): Response
+}
+
+export interface TrustGate {
+  /** Decide for one caller identity */
+  check(identity: AgentIdentity): Promise<TrustGateDecision>
+  /** Express/Connect middleware; the decision is stored in `res.locals.trust` */
+  express(
+    options?: TrustGateAdapterOptions<ExpressLikeRequest>,
+  ): (req: ExpressLikeRequest, res: ExpressLikeResponse, next: (error?: unknown) => void) => void
+  /** Hono middleware; the decision is stored as `c.get('trust')` */
+  hono(
+    options?: TrustGateAdapterOptions<HonoLikeContext>,
+  ): (c: HonoLikeContext, next: () => Promise<void>) => Promise<Response | void>
+  /** Wrap a standard `Request → Response` handler */
+  fetch(
+    handler: (request: Request, decision: TrustGateDecision) => Response | Promise<Response>,
+    options?: TrustGateAdapterOptions<Request>,
+  ): (request: Request) => Promise<Response>
+}
+
+// --- Guarded Wallet Types ---
+
+/** What `trustActions` needs from a trust client: evaluations, plus search for the default resolver */
+export interface CounterpartyOracle extends TrustEvaluator {
+  search(options?: SearchOptions): Promise<SearchResponse>
+}
+
+/** Trust verdict for one recipient address */
+export interface CounterpartyCheck {
+  address: `0x${string}`
+  chainId: number
+  /** ERC-8004 agents the address resolved to; empty when it is not a known agent */
+  agents: AgentRef[]
+  evaluations: Evaluation[]
+  /** Strictest `recommended_action` among `evaluations`, or `unknownRecipient` */
+  action: TrustDecision
+}
+
+export interface CounterpartyReview {
+  method: 'sendTransaction' | 'writeContract'
+  /** The arguments the action was called with */
+  args: unknown
+  checks: CounterpartyCheck[]
+}
+
+export interface TrustActionsOptions {
+  /** Preset for counterparty evaluations (default `defi_counterparty`) */
+  preset?: PresetName
+  context?: string
+  /** Map an address to agents; default searches the oracle for agents owned by it */
+  resolveAgent?: (address: `0x${string}`, chainId: number) => Promise<AgentRef[]>
+  /** Action for recipients that are not agents (default `allow`) */
+  unknownRecipient?: TrustDecision
+  /** Asked on `review`; resolve `true` to send. Without it, `review` is refused. */
+  confirm?: (review: CounterpartyReview) => boolean | Promise<boolean>
+}
+
+/** The parts of a viem `WalletClient` that `trustActions` wraps */
+export interface GuardableWalletClient {
+  chain?: { id: number } | undefined
+  getChainId?: () => Promise<number>
+  sendTransaction: (args: never) => Promise<`0x${string}`>
+  writeContract: (args: never) => Promise<`0x${string}`>
+}
+
+// --- Score Verification Types ---
+
+export type ScoreComponent = keyof TrustScore['breakdown']
+
+/** Score (0-100) from a breakdown */
+export type ScoreFormula = (breakdown: TrustScore['breakdown']) => number
+
+export interface ScoreVerifyOptions {
+  /** Largest |reported − recomputed| accepted, in score points (default 1) */
+  tolerance?: number
+  /** Formula to recompute with (default: weighted sum, `incidentPenalty` counting against its weight) */
+  formula?: ScoreFormula
+}
+
+/** One breakdown entry's share of the score */
+export interface ScoreContribution {
+  component: ScoreComponent
+  value: number
+  weight: number
+  /** Points this component adds to the score */
+  points: number
+  /** Points it would add at its best value (1, or 0 for `incidentPenalty`) minus `points` */
+  lost: number
+}
+
+export interface ScoreVerification {
+  /** `true` when the score matches its breakdown within tolerance and no issue was found */
+  consistent: boolean
+  reported: number
+  recomputed: number
+  /** `reported − recomputed` */
+  difference: number
+  contributions: ScoreContribution[]
+  /** Human-readable problems: discrepancy, weights not summing to 1, values out of range, stats mismatch */
+  issues: string[]
+}
+
+/** Hypothetical changes for `simulateScore` */
+export interface ScoreChanges {
+  positiveFeedback?: number
+  negativeFeedback?: number
+  /** Open incidents resolved (never more than are open) */
+  resolvedIncidents?: number
+  newIncidents?: number
+  /** Set breakdown values directly (0-1), after the changes above */
+  breakdown?: Partial<Record<ScoreComponent, number>>
+}
+
+export interface ScoreSimulateOptions {
+  formula?: ScoreFormula
+  /** Penalty added per open incident; inferred from the current score when it has open incidents */
+  penaltyPerIncident?: number
+}
+
+export interface ScoreSimulation {
+  /** Recomputed current score */
+  before: number
+  after: number
+  /** `after − before` */
+  delta: number
+  breakdown: TrustScore['breakdown']
+  stats: TrustScore['stats']
+  /** What the simulation had to assume, for showing alongside the result */
+  assumptions: string[]
+}
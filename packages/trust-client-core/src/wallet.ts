@@ -0,0 +1,144 @@
+import { CounterpartyTrustError } from './errors'
+import type {
+  AgentRef,
+  CounterpartyCheck,
+  CounterpartyOracle,
+  CounterpartyReview,
+  GuardableWalletClient,
+  TrustActionsOptions,
+  TrustDecision,
+} from './types'
+
+type Address = `0x${string}`
+
+const DECISION_RANK: Record<TrustDecision, number> = { allow: 0, review: 1, limit: 2 }
+
+/** ERC-20 selectors whose first (or, for `transferFrom`, second) argument receives funds or allowance */
+const TOKEN_SELECTORS: Record<string, number> = {
+  '0xa9059cbb': 0, // transfer(address,uint256)
+  '0x095ea7b3': 0, // approve(address,uint256)
+  '0x23b872dd': 1, // transferFrom(address,address,uint256)
+}
+const TOKEN_FUNCTIONS: Record<string, number> = { transfer: 0, approve: 0, transferFrom: 1 }
+
+const isAddress = (value: unknown): value is Address =>
+  typeof value === 'string' && /^0x[0-9a-fA-F]{40}$/.test(value)
+
+/** The address argument at `index` of ABI-encoded ERC-20 calldata, if `data` is one of `TOKEN_SELECTORS` */
+function tokenRecipient(data: unknown): Address | undefined {
+  if (typeof data !== 'string') return undefined
+  const index = TOKEN_SELECTORS[data.slice(0, 10).toLowerCase()]
+  if (index === undefined) return undefined
+  const word = data.slice(10 + index * 64, 10 + (index + 1) * 64)
+  return word.length === 64 ? (`0x${word.slice(24)}` as Address) : undefined
+}
+
+/**
+ * Addresses a call pays or authorizes: the target, plus the token recipient
+ * or spender of ERC-20 `transfer`, `approve` and `transferFrom`
+ */
+function recipientsOf(method: CounterpartyReview['method'], args: Record<string, unknown>): Address[] {
+  const found: unknown[] = []
+  if (method === 'sendTransaction') {
+    found.push(args.to, tokenRecipient(args.data))
+  } else {
+    const index = TOKEN_FUNCTIONS[args.functionName as string]
+    found.push(args.address, index !== undefined && Array.isArray(args.args) ? args.args[index] : undefined)
+  }
+
+  const seen = new Set<string>()
+  return found.filter((address): address is Address => {
+    if (!isAddress(address) || seen.has(address.toLowerCase())) return false
+    seen.add(address.toLowerCase())
+    return true
+  })
+}
+
+function ownedAgents(oracle: CounterpartyOracle) {
+  return async (address: Address, chainId: number): Promise<AgentRef[]> => {
+    const { agents } = await oracle.search({ q: address, chainId, limit: 100 })
+    return agents
+      .filter((agent) => agent.chainId === chainId && agent.owner.toLowerCase() === address.toLowerCase())
+      .map(({ chainId, agentId }) => ({ chainId, agentId }))
+  }
+}
+
+/**
+ * viem client extension that checks every recipient's trust before
+ * `sendTransaction` and `writeContract` send anything:
+ *
+ * ```ts
+ * const wallet = createWalletClient({ account, chain: celo, transport: http() })
+ *   .extend(trustActions(denscope, { confirm: askOperator }))
+ * await wallet.sendTransaction({ to: counterparty, value }) // throws CounterpartyTrustError on `limit`
+ * ```
+ *
+ * Recipients (the target and ERC-20 `transfer`/`approve`/`transferFrom`
+ * counterparties) are resolved to ERC-8004 agents, by owner by default, and
+ * evaluated with `defi_counterparty`. The strictest `recommended_action`
+ * wins: `limit` throws `CounterpartyTrustError` (`refused`), `review` sends
+ * only if `confirm` resolves `true`. Oracle errors propagate, so nothing is
+ * sent unchecked. Other actions (`sendCalls`, `deployContract`, raw
+ * transactions) are not guarded.
+ */
+export function trustActions(oracle: CounterpartyOracle, options: TrustActionsOptions = {}) {
+  const preset = options.preset ?? 'defi_counterparty'
+  const resolveAgent = options.resolveAgent ?? ownedAgents(oracle)
+  const unknownRecipient = options.unknownRecipient ?? 'allow'
+
+  async function check(address: Address, chainId: number): Promise<CounterpartyCheck> {
+    const agents = await resolveAgent(address, chainId)
+    const evaluations = await Promise.all(
+      agents.map(async (agent) => {
+        const { evaluation } = await oracle.evaluate(agent.chainId, agent.agentId, {
+          preset,
+          ...(options.context ? { context: options.context } : {}),
+        })
+        return evaluation
+      }),
+    )
+    const action = evaluations.length
+      ? evaluations.reduce<TrustDecision>(
+        (strictest, { recommended_action }) =>
+          DECISION_RANK[recommended_action] > DECISION_RANK[strictest] ? recommended_action : strictest,
+        'allow',
+      )
+      : unknownRecipient
+    return { address, chainId, agents, evaluations, action }
+  }
+
+  return <C extends GuardableWalletClient>(wallet: C): Pick<C, 'sendTransaction' | 'writeContract'> => {
+    async function guard(method: CounterpartyReview['method'], args: Record<string, unknown>): Promise<void> {
+      const recipients = recipientsOf(method, args)
+      if (!recipients.length) return
+
+      const chain = args.chain as { id: number } | null | undefined
+      const chainId = chain?.id ?? wallet.chain?.id ?? (await wallet.getChainId?.())
+      if (chainId === undefined) throw new Error('trustActions: the wallet client has no chain to resolve agents on')
+
+      const checks = await Promise.all(recipients.map((address) => check(address, chainId)))
+      const refused = checks.filter((c) => c.action === 'limit')
+      if (refused.length) {
+        const rationale = refused.flatMap((c) => c.evaluations.map((e) => e.rationale)).join(' ')
+        throw new CounterpartyTrustError(
+          `Refused ${method} to ${refused.map((c) => c.address).join(', ')}${rationale ? `: ${rationale}` : ''}`,
+          'refused',
+          checks,
+        )
+      }
+      if (checks.some((c) => c.action === 'review') && !(await options.confirm?.({ method, args, checks }))) {
+        throw new CounterpartyTrustError(`${method} needs confirmation and was not confirmed`, 'unconfirmed', checks)
+      }
+    }
+
+    const sendTransaction = async (args: Record<string, unknown>) => {
+      await guard('sendTransaction', args)
+      return wallet.sendTransaction(args as never)
+    }
+    const writeContract = async (args: Record<string, unknown>) => {
+      await guard('writeContract', args)
+      return wallet.writeContract(args as never)
+    }
+    return { sendTransaction, writeContract } as unknown as Pick<C, 'sendTransaction' | 'writeContract'>
+  }
+}
@@ -1,8 +1,13 @@
-import { EIP3009_TYPES, SIGNATURE_VALIDITY_SECONDS } from './constants'
+import { SIGNATURE_VALIDITY_SECONDS } from './constants'
 import { PaymentRequiredError } from './errors'
+import { paymentSchemeRegistry } from './schemes'
 import type {
+  PaymentAuthorization,
+  PaymentPayload,
+  PaymentReceipt,
   PaymentRequiredBody,
   PaymentRequirement,
+  PaymentScheme,
   ResourceInfo,
   X402Config,
 } from './types'
@@ -21,6 +26,34 @@ export function decodePaymentRequired(response: Response): PaymentRequiredBody {
   }
 }
 
+/**
+ * Decode the settlement receipt from a paid response (`PAYMENT-RESPONSE`, or
+ * `X-PAYMENT-RESPONSE` from v1 servers). Returns `undefined` when the header
+ * is absent or malformed — the payment already went through, so the response
+ * body is still returned to the caller.
+ */
+export function decodePaymentResponse(response: Response): PaymentReceipt | undefined {
+  const header =
+    response.headers.get('payment-response') ?? response.headers.get('x-payment-response')
+  if (!header) return undefined
+  try {
+    const receipt = JSON.parse(atob(header)) as PaymentReceipt
+    return typeof receipt === 'object' && receipt !== null ? receipt : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Milliseconds the server's clock is ahead of `now`, from the response `Date`
+ * header (second resolution). `undefined` when the header is absent or invalid.
+ */
+export function serverTimeOffset(response: Response, now: number = Date.now()): number | undefined {
+  const date = response.headers.get('date')
+  const serverTime = date ? Date.parse(date) : NaN
+  return Number.isNaN(serverTime) ? undefined : serverTime - now
+}
+
 /** Generate a random 32-byte hex nonce (pitfall #5: must be unique per call) */
 function randomNonce(): `0x${string}` {
   const bytes = new Uint8Array(32)
@@ -31,76 +64,99 @@ function randomNonce(): `0x${string}` {
   return `0x${hex}` as `0x${string}`
 }
 
-/** Parse chain ID from CAIP-2 network string (e.g., "eip155:42220" → 42220) */
-function parseChainId(network: string): number {
-  const parts = network.split(':')
-  if (parts.length !== 2 || parts[0] !== 'eip155') {
-    throw new PaymentRequiredError(`Unsupported network format: ${network}`)
+/**
+ * Whether `requirement` can be signed: a built-in scheme (EIP-3009, or
+ * Permit2 with `extra.spender`) or one of `schemes` matches its `scheme`,
+ * `assetTransferMethod` and network.
+ */
+export function isSupportedRequirement(
+  requirement: PaymentRequirement,
+  schemes?: PaymentScheme[],
+): boolean {
+  return paymentSchemeRegistry(schemes).find(requirement) != null
+}
+
+/** A signed x402 payment: the X-PAYMENT header value and what it authorizes */
+export interface SignedPayment {
+  header: string
+  authorization: PaymentAuthorization
+  signature: `0x${string}`
+}
+
+/** Per-signature inputs not carried by the config */
+export interface SignOptions {
+  /** Milliseconds to add to `config.clock`, e.g. from `serverTimeOffset` */
+  serverTimeOffsetMs?: number
+}
+
+/** Sign an x402 payment and build the X-PAYMENT header value */
+export async function buildPaymentHeader(
+  config: X402Config,
+  requirement: PaymentRequirement,
+  resource: ResourceInfo,
+  options?: SignOptions,
+): Promise<string> {
+  return (await signPayment(config, requirement, resource, options)).header
+}
+
+/**
+ * `validAfter` / `validBefore` in unix seconds for `requirement`, from
+ * `config.authorizationWindow` and the (server-corrected) clock
+ */
+function validityWindow(
+  config: X402Config,
+  requirement: PaymentRequirement,
+  options: SignOptions | undefined,
+): { validAfter: number; validBefore: number } {
+  const window = config.authorizationWindow ?? {}
+  const clock = config.clock ?? Date.now
+  const now = Math.floor((clock() + (options?.serverTimeOffsetMs ?? 0)) / 1000)
+
+  let validFor = window.validForSeconds ?? SIGNATURE_VALIDITY_SECONDS
+  if (requirement.maxTimeoutSeconds > 0) validFor = Math.min(validFor, requirement.maxTimeoutSeconds)
+
+  const leeway = window.validAfterLeewaySeconds
+  return {
+    validAfter: leeway == null ? 0 : Math.max(0, now - leeway),
+    validBefore: now + validFor,
   }
-  return parseInt(parts[1], 10)
 }
 
 /**
- * Sign an x402 payment and build the X-PAYMENT header value.
+ * Sign an x402 payment, returning the header along with the authorization.
  *
  * Pitfalls handled:
  * - #3: X-PAYMENT v2 includes `resource` + `accepted` from 402 response
  * - #4: `amount`, `validAfter`, `validBefore` are strings in wire format
  * - #5: Unique 32-byte nonce per call via crypto.getRandomValues
- * - #6: `validBefore` = now + 1 hour (future)
+ * - #6: `validBefore` in the future: now + `validForSeconds` (1 hour),
+ *   clamped to the requirement's `maxTimeoutSeconds`
  * - #7: EIP-712 domain extracted from 402 response `extra`, never hardcoded
+ *
+ * The signature itself comes from the `PaymentScheme` registered for the
+ * requirement's `scheme` and `assetTransferMethod`; `PaymentRequiredError` is
+ * thrown when none matches.
  */
-export async function buildPaymentHeader(
+export async function signPayment(
   config: X402Config,
   requirement: PaymentRequirement,
   resource: ResourceInfo,
-): Promise<string> {
-  // Pitfall #7: domain from 402 response, never hardcoded
-  const chainId = parseChainId(requirement.network)
-  const domain = {
-    name: requirement.extra.name,
-    version: requirement.extra.version,
-    chainId,
-    verifyingContract: requirement.asset as `0x${string}`,
-  }
-
-  const nonce = randomNonce() // Pitfall #5
-  const now = Math.floor(Date.now() / 1000)
-  const validBefore = now + SIGNATURE_VALIDITY_SECONDS // Pitfall #6
+  options?: SignOptions,
+): Promise<SignedPayment> {
+  const scheme = paymentSchemeRegistry(config.paymentSchemes).resolve(requirement)
+  const nonce = (config.nonceSource ?? randomNonce)() // Pitfall #5
+  const { validAfter, validBefore } = validityWindow(config, requirement, options) // Pitfall #6
 
-  const message = {
-    from: config.account.address,
-    to: requirement.payTo as `0x${string}`,
-    value: BigInt(requirement.amount), // Pitfall #4: string → BigInt for signing
-    validAfter: BigInt(0),
-    validBefore: BigInt(validBefore),
+  const { payload, signature, authorization } = await scheme.sign({
+    account: config.account,
+    requirement,
+    resource,
     nonce,
-  }
-
-  const signature = await config.account.signTypedData({
-    domain,
-    types: EIP3009_TYPES,
-    primaryType: 'TransferWithAuthorization',
-    message,
+    validAfter,
+    validBefore,
   })
 
-  // Pitfall #3: include resource + accepted; Pitfall #4: strings in wire format
-  const payload = {
-    x402Version: 2,
-    resource,
-    accepted: requirement,
-    payload: {
-      signature,
-      authorization: {
-        from: config.account.address,
-        to: requirement.payTo,
-        value: requirement.amount,       // string
-        validAfter: '0',                 // string
-        validBefore: String(validBefore), // string
-        nonce,
-      },
-    },
-  }
-
-  return btoa(JSON.stringify(payload))
+  // Pitfall #3: include resource + accepted
+  const body: PaymentPayload = { x402Version: 2, resource, accepted: requirement, payload }
+  return { header: btoa(JSON.stringify(body)), authorization, signature }
 }
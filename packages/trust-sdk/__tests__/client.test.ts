@@ -1,5 +1,12 @@
 import { describe, it, expect, vi, afterEach } from 'vitest'
-import { DenScope, DenScopeError, AuthenticationError, PaymentRequiredError } from '../src'
+import {
+  DenScope,
+  DenScopeError,
+  AuthenticationError,
+  PaymentRequiredError,
+  NotFoundError,
+  RateLimitError,
+} from '../src'
 
 const BASE = 'https://denscope.vercel.app'
 
@@ -121,6 +128,15 @@ describe('DenScope client (API key mode)', () => {
     await expect(ds.getAgent(42220, 999)).rejects.toThrow(DenScopeError)
   })
 
+  it('throws NotFoundError (a DenScopeError) on 404', async () => {
+    globalThis.fetch = mockFetch(404, { error: 'Agent not found' })
+
+    const ds = new DenScope({ apiKey: 'ds_test123' })
+    const err = await ds.getAgent(42220, 999).catch((e) => e)
+    expect(err).toBeInstanceOf(NotFoundError)
+    expect(err).toBeInstanceOf(DenScopeError)
+  })
+
   it('throws DenScopeError on 429', async () => {
     globalThis.fetch = mockFetch(429, { error: 'Rate limit exceeded' })
 
@@ -128,6 +144,7 @@ describe('DenScope client (API key mode)', () => {
     const err = await ds.getAgent(42220, 5).catch((e) => e)
     expect(err).toBeInstanceOf(DenScopeError)
     expect(err.status).toBe(429)
+    expect(err).toBeInstanceOf(RateLimitError)
   })
 
   it('respects custom baseUrl', async () => {
@@ -5,19 +5,174 @@ export {
   TrustClientError as DenScopeError,
   PaymentRequiredError,
   AuthenticationError,
+  NotFoundError,
+  RateLimitError,
+  ValidationError,
+  ServerError,
+  TimeoutError,
+  NetworkError,
+  SchemaMismatchError,
+  PaymentPolicyError,
+  PaymentVerificationError,
+  SignerError,
+  TrustPolicyError,
+  CounterpartyTrustError,
+  PresetError,
+} from '@denlabs/trust-client-core'
+
+export {
+  MemoryCacheStore,
+  agentKey,
+  apiKeyAuth,
+  x402Payment,
+  hybridAuth,
+  callbackSigner,
+  httpSigner,
+  eip1193Signer,
+  evaluatePolicy,
+  validatePolicy,
+  trustGate,
+  trustGateDenial,
+  parseAgentId,
+  trustActions,
+  recomputeScore,
+  verifyScore,
+  simulateScore,
+  schemas,
+  MemoryPaymentLedger,
+  JsonlPaymentLedger,
+  spendByPeriod,
+  spendByEndpoint,
+  ledgerToCsv,
+  PaymentSchemeRegistry,
+  DEFAULT_PAYMENT_SCHEMES,
+  eip3009Scheme,
+  permit2Scheme,
+  createPaymentRequired,
+  encodePaymentRequired,
+  paymentRequiredResponse,
+  encodePaymentResponse,
+  decodePaymentHeader,
+  verifyPayment,
+  MemoryNonceStore,
 } from '@denlabs/trust-client-core'
 
 // Re-export all types from core
 export type {
   TrustClientConfig as DenScopeConfig,
   TrustClientFetch as DenScopeFetch,
+  ValidationErrorDetail,
   BaseClientConfig,
   ApiKeyConfig,
   X402Config,
+  TrustPolicy,
+  PolicyRule,
+  PolicyCondition,
+  PolicyOperator,
+  PolicyValue,
+  SignalFilter,
+  PolicyInput,
+  PolicyEvidence,
+  PolicyDecision,
+  FiredRule,
+  TrustDecision,
+  TrustGate,
+  TrustGateOptions,
+  TrustGateAdapterOptions,
+  TrustGateDecision,
+  TrustGateDenial,
+  TrustGateDenialResponse,
+  TrustEvaluator,
+  AgentIdentity,
+  AgentExtractor,
+  ExpressLikeRequest,
+  ExpressLikeResponse,
+  HonoLikeContext,
+  TrustActionsOptions,
+  CounterpartyOracle,
+  CounterpartyCheck,
+  CounterpartyReview,
+  GuardableWalletClient,
+  X402Account,
+  TypedDataRequest,
+  SignerFailure,
+  SigningApproval,
+  SignerOptions,
+  HttpSignerOptions,
+  Eip1193Provider,
+  HybridConfig,
+  X402FallbackPolicy,
+  AuthorizationWindow,
+  PaymentScheme,
+  PaymentSigningContext,
+  SchemePayload,
+  PaymentPayload,
+  Eip3009Payload,
+  PaymentVerificationFailure,
+  NonceStore,
+  TypedDataRecoverer,
+  VerifyPaymentOptions,
+  VerifiedPayment,
+  PaymentPolicy,
+  PaymentAttempt,
+  PaymentPolicyViolation,
+  AtomicAmount,
+  RequirementStrategy,
+  RequirementPreferences,
+  RequirementSelector,
+  PaymentLedger,
+  LedgerEntry,
+  LedgerQuery,
+  SpendSummary,
+  LedgerFileSystem,
+  RetryOptions,
+  RequestOptions,
+  CacheOptions,
+  CacheStore,
+  CacheEntry,
+  CacheableMethod,
+  AgentRef,
+  BulkOptions,
+  BulkItemResult,
+  BulkResult,
+  BulkMethod,
+  BulkRequest,
+  BulkEndpointHook,
+  Middleware,
+  MiddlewareContext,
+  MiddlewareRequest,
+  Operation,
+  PaymentInfo,
+  PaymentDetails,
+  PaymentAuthorization,
+  PaymentReceipt,
+  WithMeta,
+  TrustClientWithMeta,
+  QuotableMethod,
+  PriceQuote,
+  QuoteOption,
+  TelemetryOptions,
+  TelemetryTracer,
+  TelemetryMeter,
+  TelemetrySpan,
+  TelemetryCounter,
+  TelemetryHistogram,
+  TelemetryAttributes,
+  ValidationMode,
+  Schema,
+  SchemaIssue,
   AgentProfile,
   AgentProfileResponse,
   ScoreBreakdownEntry,
   TrustScore,
+  ScoreComponent,
+  ScoreFormula,
+  ScoreVerifyOptions,
+  ScoreContribution,
+  ScoreVerification,
+  ScoreChanges,
+  ScoreSimulateOptions,
+  ScoreSimulation,
   ScoreResponse,
   Signal,
   SignalsResponse,
@@ -28,8 +183,17 @@ export type {
   EventsOptions,
   SearchOptions,
   SignalsOptions,
+  IterateEventsOptions,
+  IterateSearchOptions,
+  CollectOptions,
+  PageIterator,
   EvaluateOptions,
   EvaluatePreset,
+  PresetName,
+  CustomPreset,
+  EvidenceThreshold,
+  NumericEvidenceField,
+  ThresholdBreach,
   EvaluateResponse,
   Evaluation,
   EvaluationEvidence,